@@ -0,0 +1,102 @@
+// Evaluate an emotion classifier on a labeled folder of clips, headless under Node.
+//
+//   npm run evaluate -- <dataset-folder> [--model model.onnx] [--manifest manifest.csv] [--json report.json]
+//
+// The folder follows the exported dataset layout (src/lib/emotion/dataset-manifest.ts);
+// only the `audio` and `label` fields of the manifest are read. Web Audio's
+// decoder isn't available in Node, so clips must be WAV and are decoded by
+// decodeWav in place of decodeAudioBlob. Each clip is analysed as a whole.
+
+import { readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { parseArgs } from 'node:util';
+import { type Mood } from '@/components/MoodSelector';
+import { decodeWav } from '@/lib/audio/wav';
+import { type EmotionClassifier } from '@/lib/emotion/classifier';
+import { MANIFEST_JSONL, parseManifestJSONL } from '@/lib/emotion/dataset-manifest';
+import { detectEmotion } from '@/lib/emotion/detect';
+import { evaluatePredictions, formatEvaluationReport, type LabeledPrediction } from '@/lib/emotion/evaluation';
+import { createHeuristicClassifier } from '@/lib/emotion/heuristic';
+import { createOnnxClassifier } from '@/lib/emotion/onnx-classifier';
+import { MOODS } from '@/lib/emotion/scores';
+
+const USAGE = "Usage: npm run evaluate -- <dataset-folder> [--model model.onnx] [--manifest manifest.csv] [--json report.json]";
+
+type ManifestClip = {
+  audio: string;
+  label: string;
+};
+
+const toArrayBuffer = (data: Buffer): ArrayBuffer => {
+  return data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer;
+};
+
+// CSV manifests need `audio` and `label` columns; fields are not quoted
+const parseManifestCSV = (text: string): ManifestClip[] => {
+  const [header, ...rows] = text.split('\n').filter(line => line.trim());
+  const columns = header.split(',').map(column => column.trim());
+  const audioColumn = columns.indexOf('audio');
+  const labelColumn = columns.indexOf('label');
+  if (audioColumn < 0 || labelColumn < 0) {
+    throw new Error("The CSV manifest needs 'audio' and 'label' columns");
+  }
+
+  return rows.map(row => {
+    const fields = row.split(',');
+    return { audio: fields[audioColumn].trim(), label: fields[labelColumn].trim() };
+  });
+};
+
+const readManifest = async (file: string): Promise<ManifestClip[]> => {
+  const text = await readFile(file, 'utf8');
+  return file.endsWith('.csv') ? parseManifestCSV(text) : parseManifestJSONL(text);
+};
+
+const isMood = (label: string): label is Mood => (MOODS as string[]).includes(label);
+
+const main = async () => {
+  const { values, positionals } = parseArgs({
+    allowPositionals: true,
+    options: {
+      model: { type: 'string' },
+      manifest: { type: 'string', default: MANIFEST_JSONL },
+      json: { type: 'string' },
+    },
+  });
+
+  const [folder] = positionals;
+  if (!folder) {
+    console.error(USAGE);
+    process.exit(2);
+  }
+
+  const clips = await readManifest(path.resolve(folder, values.manifest));
+  const classifier: EmotionClassifier = values.model
+    ? await createOnnxClassifier(toArrayBuffer(await readFile(values.model)), path.basename(values.model))
+    : createHeuristicClassifier();
+
+  const predictions: LabeledPrediction[] = [];
+  for (const clip of clips) {
+    if (!isMood(clip.label)) {
+      console.warn(`Skipping ${clip.audio}: unknown label '${clip.label}'`);
+      continue;
+    }
+
+    const { channels, sampleRate } = decodeWav(toArrayBuffer(await readFile(path.resolve(folder, clip.audio))));
+    const result = await detectEmotion(channels[0], sampleRate, classifier);
+    predictions.push({ label: clip.label, predicted: result.mood });
+  }
+
+  const report = evaluatePredictions(predictions, classifier.name);
+  console.log(formatEvaluationReport(report));
+
+  if (values.json) {
+    await writeFile(values.json, JSON.stringify(report, null, 2) + '\n');
+    console.log(`\nReport written to ${values.json}`);
+  }
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
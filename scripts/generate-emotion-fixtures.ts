@@ -0,0 +1,83 @@
+// Write the synthetic voice-like clips used by the emotion regression tests.
+//
+//   npx tsx scripts/generate-emotion-fixtures.ts
+//
+// Each clip is a harmonic tone shaped into syllables, with loudness, brightness
+// (number and decay of harmonics) and pitch movement chosen so that it sits
+// clearly inside one mood's rule. The output is fully deterministic; re-running
+// the script reproduces tests/fixtures/emotion byte for byte.
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { type Mood } from '@/components/MoodSelector';
+import { encodeWAV } from '@/lib/audio/wav';
+
+const FIXTURE_DIR = path.resolve('tests/fixtures/emotion');
+const SAMPLE_RATE = 16000;
+const DURATION = 1.5;
+
+type VoiceShape = {
+  // Peak amplitude (0-1)
+  level: number;
+  // F0 at the start and end of the clip, Hz
+  pitchFrom: number;
+  pitchTo: number;
+  // Relative vibrato depth and rate (Hz)
+  vibrato: number;
+  vibratoRate: number;
+  harmonics: number;
+  // Amplitude of harmonic k is rolloff^(k-1)
+  rolloff: number;
+  syllablesPerSecond: number;
+  // Soft-clipping gain for pressed, loud voices; unset keeps the tone clean
+  drive?: number;
+};
+
+const SHAPES: Record<Mood, VoiceShape> = {
+  calm: { level: 0.06, pitchFrom: 140, pitchTo: 130, vibrato: 0.01, vibratoRate: 3, harmonics: 4, rolloff: 0.35, syllablesPerSecond: 2 },
+  sad: { level: 0.05, pitchFrom: 220, pitchTo: 200, vibrato: 0.01, vibratoRate: 3, harmonics: 24, rolloff: 0.97, syllablesPerSecond: 2 },
+  happy: { level: 0.6, pitchFrom: 180, pitchTo: 240, vibrato: 0.05, vibratoRate: 5, harmonics: 5, rolloff: 0.4, syllablesPerSecond: 4 },
+  energetic: { level: 0.95, pitchFrom: 220, pitchTo: 480, vibrato: 0.15, vibratoRate: 6, harmonics: 8, rolloff: 0.9, syllablesPerSecond: 5, drive: 4 },
+  angry: { level: 0.95, pitchFrom: 380, pitchTo: 385, vibrato: 0.005, vibratoRate: 4, harmonics: 8, rolloff: 0.9, syllablesPerSecond: 5, drive: 4 },
+};
+
+const synthesize = (shape: VoiceShape): Float32Array => {
+  const samples = new Float32Array(Math.round(DURATION * SAMPLE_RATE));
+  const norm = Array.from({ length: shape.harmonics }, (_, k) => shape.rolloff ** k).reduce((a, b) => a + b, 0);
+  let phase = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    const t = i / SAMPLE_RATE;
+    const f0 = (shape.pitchFrom + (shape.pitchTo - shape.pitchFrom) * (t / DURATION))
+      * (1 + shape.vibrato * Math.sin(2 * Math.PI * shape.vibratoRate * t));
+    phase += 2 * Math.PI * f0 / SAMPLE_RATE;
+
+    // Raised-sine syllables with a short gap between them
+    const syllable = (t * shape.syllablesPerSecond) % 1;
+    const envelope = syllable < 0.8 ? Math.sin(Math.PI * syllable / 0.8) : 0;
+
+    let value = 0;
+    for (let k = 1; k <= shape.harmonics && k * f0 < SAMPLE_RATE / 2; k++) {
+      value += shape.rolloff ** (k - 1) * Math.sin(k * phase);
+    }
+    value /= norm;
+    if (shape.drive) value = Math.tanh(shape.drive * value) / Math.tanh(shape.drive);
+    samples[i] = shape.level * envelope * value;
+  }
+
+  return samples;
+};
+
+const main = async () => {
+  await mkdir(FIXTURE_DIR, { recursive: true });
+  for (const [mood, shape] of Object.entries(SHAPES)) {
+    const file = path.join(FIXTURE_DIR, `${mood}.wav`);
+    await writeFile(file, Buffer.from(encodeWAV([synthesize(shape)], { sampleRate: SAMPLE_RATE })));
+    console.log(`Wrote ${path.relative(process.cwd(), file)}`);
+  }
+};
+
+main().catch(error => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});
@@ -0,0 +1,134 @@
+import React, { useRef } from 'react';
+import { cn } from '@/lib/utils';
+import { MOOD_COLORS } from '@/lib/emotion/palette';
+import { MOOD_LABELS, MOODS } from '@/lib/emotion/scores';
+import { clampAffect, MOOD_ANCHORS, type AffectPoint } from '@/lib/emotion/affect';
+
+type AffectCircumplexProps = {
+  // The chosen point, drawn as a filled marker
+  point?: AffectPoint | null;
+  // The detector's estimate, drawn as a ring
+  suggestedPoint?: AffectPoint | null;
+  // Makes the plane pickable by clicking or dragging
+  onChange?: (point: AffectPoint) => void;
+  className?: string;
+};
+
+// SVG user units; valence runs left to right, arousal bottom to top
+const SIZE = 200;
+
+const toX = (valence: number) => ((valence + 1) / 2) * SIZE;
+const toY = (arousal: number) => ((1 - arousal) / 2) * SIZE;
+
+// How far one arrow key press moves the point; Shift moves it further
+const KEY_STEP = 0.05;
+const LARGE_KEY_STEP = 0.25;
+
+// Arrow key → direction on the plane
+const KEY_DIRECTIONS: Record<string, AffectPoint> = {
+  ArrowLeft: { valence: -1, arousal: 0 },
+  ArrowRight: { valence: 1, arousal: 0 },
+  ArrowUp: { valence: 0, arousal: 1 },
+  ArrowDown: { valence: 0, arousal: -1 },
+};
+
+const AffectCircumplex = ({ point, suggestedPoint, onChange, className }: AffectCircumplexProps) => {
+  const svgRef = useRef<SVGSVGElement | null>(null);
+
+  const pick = (event: React.PointerEvent<SVGSVGElement>) => {
+    const rect = svgRef.current?.getBoundingClientRect();
+    if (!rect || !onChange) return;
+
+    onChange(clampAffect({
+      valence: ((event.clientX - rect.left) / rect.width) * 2 - 1,
+      arousal: 1 - ((event.clientY - rect.top) / rect.height) * 2,
+    }));
+  };
+
+  // Arrow keys move left/right along valence and up/down along arousal,
+  // starting from the chosen point, else the suggestion, else the centre.
+  // As a slider its value is valence; the value text reads out both
+  const handleKeyDown = (event: React.KeyboardEvent<SVGSVGElement>) => {
+    const direction = KEY_DIRECTIONS[event.key];
+    if (!direction || !onChange) return;
+    event.preventDefault();
+
+    const from = point ?? suggestedPoint ?? { valence: 0, arousal: 0 };
+    const step = event.shiftKey ? LARGE_KEY_STEP : KEY_STEP;
+    onChange(clampAffect({
+      valence: from.valence + direction.valence * step,
+      arousal: from.arousal + direction.arousal * step,
+    }));
+  };
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`0 0 ${SIZE} ${SIZE}`}
+      className={cn(
+        "w-full aspect-square rounded-md bg-secondary/20 touch-none select-none",
+        onChange && "cursor-crosshair focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring",
+        className
+      )}
+      onPointerDown={(event) => {
+        if (!onChange) return;
+        event.currentTarget.setPointerCapture(event.pointerId);
+        pick(event);
+      }}
+      onPointerMove={(event) => {
+        if (event.currentTarget.hasPointerCapture(event.pointerId)) pick(event);
+      }}
+      onKeyDown={handleKeyDown}
+      tabIndex={onChange ? 0 : undefined}
+      role={onChange ? "slider" : "img"}
+      aria-label="Valence and arousal"
+      aria-valuemin={onChange ? -1 : undefined}
+      aria-valuemax={onChange ? 1 : undefined}
+      aria-valuenow={onChange ? (point?.valence ?? 0) : undefined}
+      aria-valuetext={point
+        ? `Valence ${point.valence.toFixed(2)}, arousal ${point.arousal.toFixed(2)}`
+        : onChange ? "No point chosen" : undefined}
+    >
+      <circle cx={SIZE / 2} cy={SIZE / 2} r={SIZE / 2 - 2} className="fill-none stroke-border" />
+      <line x1={0} y1={SIZE / 2} x2={SIZE} y2={SIZE / 2} className="stroke-border" />
+      <line x1={SIZE / 2} y1={0} x2={SIZE / 2} y2={SIZE} className="stroke-border" />
+
+      <g className="fill-muted-foreground text-[8px]">
+        <text x={SIZE / 2 + 3} y={9}>Active</text>
+        <text x={SIZE / 2 + 3} y={SIZE - 3}>Passive</text>
+        <text x={3} y={SIZE / 2 - 3}>Unpleasant</text>
+        <text x={SIZE - 3} y={SIZE / 2 - 3} textAnchor="end">Pleasant</text>
+      </g>
+
+      {MOODS.map(mood => (
+        <g key={mood}>
+          <circle cx={toX(MOOD_ANCHORS[mood].valence)} cy={toY(MOOD_ANCHORS[mood].arousal)} r={5} fill={MOOD_COLORS[mood]} />
+          <text
+            x={toX(MOOD_ANCHORS[mood].valence)}
+            y={toY(MOOD_ANCHORS[mood].arousal) + 14}
+            textAnchor="middle"
+            className="fill-foreground text-[9px]"
+          >
+            {MOOD_LABELS[mood]}
+          </text>
+        </g>
+      ))}
+
+      {suggestedPoint && (
+        <circle
+          cx={toX(suggestedPoint.valence)}
+          cy={toY(suggestedPoint.arousal)}
+          r={7}
+          className="fill-none stroke-primary"
+          strokeWidth={2}
+          strokeDasharray="3 2"
+        />
+      )}
+      {point && (
+        <circle cx={toX(point.valence)} cy={toY(point.arousal)} r={6} className="fill-primary stroke-background" strokeWidth={2} />
+      )}
+    </svg>
+  );
+};
+
+export default AffectCircumplex;
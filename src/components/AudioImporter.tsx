@@ -0,0 +1,141 @@
+import React, { useRef, useState } from 'react';
+import { FileAudio, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { decodeAudioBlob } from '@/lib/audio/decode';
+
+type AudioImporterProps = {
+  onImportComplete: (audioBlob: Blob, duration: number) => void;
+  minRecordingTime?: number;
+};
+
+// Supported formats, matched by MIME type first and extension as a fallback
+// since some platforms report an empty type for FLAC or WebM files
+const ACCEPTED_TYPES = [
+  'audio/wav', 'audio/x-wav', 'audio/wave',
+  'audio/mpeg', 'audio/mp3',
+  'audio/ogg', 'application/ogg',
+  'audio/flac', 'audio/x-flac',
+  'audio/webm', 'video/webm',
+];
+const ACCEPTED_EXTENSIONS = ['.wav', '.mp3', '.ogg', '.oga', '.flac', '.webm'];
+
+const isAcceptedFile = (file: File): boolean => {
+  const name = file.name.toLowerCase();
+  return ACCEPTED_TYPES.includes(file.type) || ACCEPTED_EXTENSIONS.some(ext => name.endsWith(ext));
+};
+
+const AudioImporter = ({ onImportComplete, minRecordingTime = 30 }: AudioImporterProps) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [isImporting, setIsImporting] = useState(false);
+  const inputRef = useRef<HTMLInputElement | null>(null);
+
+  // Validate and decode the file before handing it over like a recording
+  const importFile = async (file: File) => {
+    if (!isAcceptedFile(file)) {
+      toast.error("Unsupported file", {
+        description: "Please choose a WAV, MP3, OGG, FLAC or WebM audio file."
+      });
+      return;
+    }
+
+    setIsImporting(true);
+
+    try {
+      const audioBuffer = await decodeAudioBlob(file);
+
+      if (audioBuffer.duration < minRecordingTime) {
+        toast.warning("Audio file is too short", {
+          description: `Please use a file of at least ${minRecordingTime} seconds (this one is ${Math.floor(audioBuffer.duration)}s).`
+        });
+        return;
+      }
+
+      toast.success("Audio imported", {
+        description: `${file.name} (${Math.round(audioBuffer.duration)}s) is ready to use.`
+      });
+      onImportComplete(file, audioBuffer.duration);
+    } catch (error) {
+      console.error("Error decoding audio file:", error);
+      toast.error("Import failed", {
+        description: "This file could not be decoded. It may be corrupt or use an unsupported codec."
+      });
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  const handleDrop = (event: React.DragEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    setIsDragging(false);
+
+    const file = event.dataTransfer.files[0];
+    if (file) {
+      importFile(file);
+    }
+  };
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file) {
+      importFile(file);
+    }
+    // Allow picking the same file again after a failed import
+    event.target.value = '';
+  };
+
+  return (
+    <Card className="w-full">
+      <CardContent className="p-6">
+        <div
+          className={cn(
+            "flex flex-col items-center justify-center gap-3 p-6 border-2 border-dashed rounded-lg text-center transition-colors",
+            isDragging ? "border-primary bg-primary/10" : "border-muted-foreground/50"
+          )}
+          onDragOver={(event) => {
+            event.preventDefault();
+            setIsDragging(true);
+          }}
+          onDragLeave={() => setIsDragging(false)}
+          onDrop={handleDrop}
+        >
+          {isImporting ? (
+            <>
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              <p className="text-muted-foreground">Decoding your audio file...</p>
+            </>
+          ) : (
+            <>
+              <FileAudio className="h-10 w-10 text-muted-foreground/70" />
+              <div>
+                <p className="font-medium">Drop an audio file here</p>
+                <p className="text-sm text-muted-foreground">
+                  WAV, MP3, OGG, FLAC or WebM, at least {minRecordingTime} seconds long
+                </p>
+              </div>
+              <Button
+                variant="outline"
+                onClick={() => inputRef.current?.click()}
+                className="gap-2"
+              >
+                <Upload className="h-4 w-4" />
+                Choose File
+              </Button>
+            </>
+          )}
+          <input
+            ref={inputRef}
+            type="file"
+            accept={[...ACCEPTED_TYPES, ...ACCEPTED_EXTENSIONS].join(',')}
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AudioImporter;
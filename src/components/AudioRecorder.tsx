@@ -1,33 +1,142 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Mic, Square, Play, Pause, Save, Download } from 'lucide-react';
+import { Mic, MicOff, Square, Play, Pause, Save, Download, History, Trash2, Gauge, Loader2 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { toast } from 'sonner';
 import AudioVisualizer from './AudioVisualizer';
+import LevelMeter from './LevelMeter';
+import TakeList, { type Take } from './TakeList';
 import { Card, CardContent } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import CaptureSettingsPopover from './CaptureSettingsPopover';
+import { useAudioInputDevices } from '@/hooks/use-audio-input-devices';
+import { createPcmRecorder, isPcmRecordingSupported, type PcmRecorder } from '@/lib/audio/pcm-recorder';
+import {
+  buildAudioConstraints,
+  loadCaptureSettings,
+  saveCaptureSettings,
+  usesDisplayAudio,
+  usesMicrophone,
+  type CaptureSettings,
+} from '@/lib/audio/capture-settings';
+import {
+  DisplayCaptureError,
+  isDisplayCaptureSupported,
+  openDisplayAudioStream,
+} from '@/lib/audio/display-capture';
+import {
+  appendRecordingChunk,
+  createRecordingSession,
+  discardRecordingSession,
+  findInterruptedSessions,
+  recoverRecordingSession,
+  type RecordingSessionMeta,
+} from '@/lib/audio/recording-store';
+import { decodeAudioBlob } from '@/lib/audio/decode';
+import { concatenateAudioBuffers } from '@/lib/audio/edit';
+import { createWavBlob, readWavBitDepth, type WavBitDepth } from '@/lib/audio/wav';
+import {
+  createLevelMeterState,
+  resetLevelMeterPeaks,
+  updateLevelMeter,
+  type LevelMeterState,
+} from '@/lib/audio/level-meter';
+import { type EmotionResult } from '@/lib/emotion/classifier';
+import { createHeuristicClassifier } from '@/lib/emotion/heuristic';
+import { getActiveProfile, loadCalibrationSettings, withCalibration } from '@/lib/emotion/calibration';
+import { createLiveEmotionEstimator, mergeLiveEstimates, type LiveEmotionEstimator } from '@/lib/emotion/live';
 
 type AudioRecorderProps = {
-  onRecordingComplete: (audioBlob: Blob) => void;
+  // Duration is the real length of the captured audio in seconds.
+  // The live emotion estimate is null when none was made (recovered takes).
+  onRecordingComplete: (audioBlob: Blob, duration: number, liveEmotion: EmotionResult | null) => void;
   minRecordingTime?: number;
 };
 
+// How often the displayed clock refreshes; the value itself comes from the audio clock
+const CLOCK_REFRESH_MS = 100;
+
+// MediaRecorder emits a chunk this often so it can be persisted as the take goes
+const PERSIST_TIMESLICE_MS = 1000;
+
+// Gains above 1 let a quiet tab or voice be lifted in the mix
+const MAX_MIX_GAIN = 2;
+
+// Live emotion detection reads the newest audio this often. The analyser
+// window must hold more than one interval of audio at every capture rate.
+const LIVE_POLL_MS = 250;
+const LIVE_ANALYSER_FFT_SIZE = 32768;
+
+// The built-in rules are cheap enough to run on every hop while recording
+const LIVE_CLASSIFIER = createHeuristicClassifier();
+
+// Sample format of a decoded take, as shown when takes can't be joined
+const describeTakeFormat = (sampleRate: number, bitDepth: WavBitDepth | null): string =>
+  `${sampleRate / 1000} kHz ${bitDepth ? `${bitDepth}-bit` : 'compressed'}`;
+
+// Pick a download extension matching the real container of the blob
+const getFileExtension = (mimeType: string): string => {
+  if (mimeType.includes('wav')) return 'wav';
+  if (mimeType.includes('ogg')) return 'ogg';
+  if (mimeType.includes('mp4')) return 'm4a';
+  return 'webm';
+};
+
 const AudioRecorder = ({ onRecordingComplete, minRecordingTime = 30 }: AudioRecorderProps) => {
   // States for managing recording status and audio data
   const [isRecording, setIsRecording] = useState(false);
   const [isPaused, setIsPaused] = useState(false);
   const [recordingTime, setRecordingTime] = useState(0);
-  const [recordingBlob, setRecordingBlob] = useState<Blob | null>(null);
-  const [audioUrl, setAudioUrl] = useState<string | null>(null);
+  // Every finished take is kept until deleted; the preview take is shown in the player
+  const [takes, setTakes] = useState<Take[]>([]);
+  const [selectedTakeIds, setSelectedTakeIds] = useState<string[]>([]);
+  const [previewTakeId, setPreviewTakeId] = useState<string | null>(null);
+  const [isCombining, setIsCombining] = useState(false);
   const [audioData, setAudioData] = useState<number[]>([]);
   const [isPlaying, setIsPlaying] = useState(false);
+  const [captureSettings, setCaptureSettings] = useState<CaptureSettings>(() => {
+    let settings = loadCaptureSettings();
+    if (!isPcmRecordingSupported()) settings = { ...settings, format: 'compressed' };
+    if (!isDisplayCaptureSupported()) settings = { ...settings, source: 'microphone' };
+    return settings;
+  });
+  const { devices: inputDevices, refresh: refreshInputDevices } = useAudioInputDevices();
+  const [interruptedSessions, setInterruptedSessions] = useState<RecordingSessionMeta[]>([]);
+  const [isRecovering, setIsRecovering] = useState(false);
+  // Mic test mode opens the input and meters it without recording
+  const [isTesting, setIsTesting] = useState(false);
+  const [levels, setLevels] = useState<LevelMeterState>(createLevelMeterState);
+  const [liveEmotion, setLiveEmotion] = useState<EmotionResult | null>(null);
 
   // Refs for managing media recorder and timers
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
+  const pcmRecorderRef = useRef<PcmRecorder | null>(null);
   const audioChunksRef = useRef<Blob[]>([]);
   const timerRef = useRef<NodeJS.Timeout | null>(null);
+  // Audio clock bookkeeping: seconds captured before the last pause, and
+  // the context time at which the current stretch started (null while paused)
+  const clockAccumulatedRef = useRef(0);
+  const clockStartedAtRef = useRef<number | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const analyserRef = useRef<AnalyserNode | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
+  const emotionAnalyserRef = useRef<AnalyserNode | null>(null);
+  const liveEstimatorRef = useRef<LiveEmotionEstimator | null>(null);
+  const liveTimerRef = useRef<NodeJS.Timeout | null>(null);
+  // Context time of the last live read, so each read takes only the new audio
+  const liveReadAtRef = useRef(0);
+  const levelsRef = useRef<LevelMeterState>(createLevelMeterState());
+  // Every stream opened for the current input: microphone and/or shared tab
+  const streamsRef = useRef<MediaStream[]>([]);
+  const micGainRef = useRef<GainNode | null>(null);
+  const displayGainRef = useRef<GainNode | null>(null);
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const playerRef = useRef<HTMLAudioElement | null>(null);
+  const autoPlayRef = useRef(false);
+  const takesRef = useRef<Take[]>([]);
+  const takeCountRef = useRef(0);
+  const knownDeviceIdsRef = useRef<string[] | null>(null);
+  const sessionIdRef = useRef<string | null>(null);
 
   // Effect to clean up resources on unmount
   useEffect(() => {
@@ -35,17 +144,82 @@ const AudioRecorder = ({ onRecordingComplete, minRecordingTime = 30 }: AudioReco
       if (timerRef.current) {
         clearInterval(timerRef.current);
       }
-      if (audioUrl) {
-        URL.revokeObjectURL(audioUrl);
-      }
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach(track => track.stop());
+      if (liveTimerRef.current) {
+        clearInterval(liveTimerRef.current);
       }
+      streamsRef.current.forEach(stream => stream.getTracks().forEach(track => track.stop()));
       if (audioContextRef.current) {
         audioContextRef.current.close();
       }
+      // Ends the visualization loop
+      analyserRef.current = null;
+      takesRef.current.forEach(take => URL.revokeObjectURL(take.url));
     };
-  }, [audioUrl]);
+  }, []);
+
+  // Keep the latest takes reachable from the unmount cleanup
+  useEffect(() => {
+    takesRef.current = takes;
+  }, [takes]);
+
+  const previewTake = takes.find(take => take.id === previewTakeId) ?? null;
+  const recordingBlob = previewTake?.blob ?? null;
+  const audioUrl = previewTake?.url ?? null;
+
+  // Look for takes left behind by a reload or crash
+  useEffect(() => {
+    findInterruptedSessions()
+      .then(setInterruptedSessions)
+      .catch(error => console.error("Error checking for interrupted recordings:", error));
+  }, []);
+
+  // Remember the last used capture settings
+  useEffect(() => {
+    saveCaptureSettings(captureSettings);
+  }, [captureSettings]);
+
+  // Announce inputs plugged in mid-session so they can be picked in settings.
+  // Only compared once labels are visible, otherwise granting permission
+  // would look like every device being plugged in at once.
+  useEffect(() => {
+    const hasPermission = inputDevices.some(device => device.label);
+    const knownDeviceIds = knownDeviceIdsRef.current;
+    
+    if (hasPermission && knownDeviceIds) {
+      inputDevices
+        .filter(device => !knownDeviceIds.includes(device.deviceId))
+        .forEach(device => {
+          toast.info("Input device connected", {
+            description: `${device.label} is available in the recording settings.`
+          });
+        });
+    }
+    knownDeviceIdsRef.current = hasPermission ? inputDevices.map(device => device.deviceId) : null;
+  }, [inputDevices]);
+
+  // Mix levels can be changed while recording
+  useEffect(() => {
+    if (micGainRef.current) {
+      micGainRef.current.gain.value = captureSettings.micGain;
+    }
+    if (displayGainRef.current) {
+      displayGainRef.current.gain.value = captureSettings.displayGain;
+    }
+  }, [captureSettings.micGain, captureSettings.displayGain]);
+
+  // Fall back to the default input when the remembered device is unplugged.
+  // Device ids are only stable once labels are visible (permission granted).
+  useEffect(() => {
+    const hasPermission = inputDevices.some(device => device.label);
+    if (!captureSettings.deviceId || !hasPermission) return;
+    
+    if (!inputDevices.some(device => device.deviceId === captureSettings.deviceId)) {
+      setCaptureSettings(prev => ({ ...prev, deviceId: null }));
+      toast.warning("Input device disconnected", {
+        description: "Switched back to the system default microphone."
+      });
+    }
+  }, [inputDevices, captureSettings.deviceId]);
 
   // Create audio element reference for playback control
   useEffect(() => {
@@ -72,156 +246,450 @@ const AudioRecorder = ({ onRecordingComplete, minRecordingTime = 30 }: AudioReco
     };
   }, [audioUrl]);
 
+  // Elapsed recording time derived from the audio clock rather than wall-clock ticks,
+  // so pauses don't lose partial seconds
+  const getElapsedTime = (): number => {
+    const audioContext = audioContextRef.current;
+    const startedAt = clockStartedAtRef.current;
+    
+    if (!audioContext || startedAt === null) {
+      return clockAccumulatedRef.current;
+    }
+    return clockAccumulatedRef.current + (audioContext.currentTime - startedAt);
+  };
+
   // Timer function for recording duration
   const startTimer = () => {
     if (timerRef.current) {
       clearInterval(timerRef.current);
     }
     
+    clockStartedAtRef.current = audioContextRef.current?.currentTime ?? null;
     timerRef.current = setInterval(() => {
-      setRecordingTime(prevTime => prevTime + 1);
-    }, 1000);
+      setRecordingTime(getElapsedTime());
+    }, CLOCK_REFRESH_MS);
   };
 
   const pauseTimer = () => {
     if (timerRef.current) {
       clearInterval(timerRef.current);
     }
+    
+    clockAccumulatedRef.current = getElapsedTime();
+    clockStartedAtRef.current = null;
+    setRecordingTime(clockAccumulatedRef.current);
   };
 
   // Audio visualization setup
-  const setupAudioVisualization = (stream: MediaStream) => {
-    const audioContext = new AudioContext();
-    audioContextRef.current = audioContext;
-    
-    const source = audioContext.createMediaStreamSource(stream);
+  const setupAudioVisualization = (audioContext: AudioContext, source: AudioNode) => {
     const analyser = audioContext.createAnalyser();
     analyserRef.current = analyser;
     analyser.fftSize = 256;
     
     source.connect(analyser);
     
+    // The meter gets its own analyser with a window longer than one animation
+    // frame, so no peak falls between two readings
+    const meterAnalyser = audioContext.createAnalyser();
+    meterAnalyser.fftSize = 2048;
+    source.connect(meterAnalyser);
+    
+    // Live emotion detection reads raw samples from a third, long analyser
+    const emotionAnalyser = audioContext.createAnalyser();
+    emotionAnalyser.fftSize = LIVE_ANALYSER_FFT_SIZE;
+    source.connect(emotionAnalyser);
+    emotionAnalyserRef.current = emotionAnalyser;
+    
     const bufferLength = analyser.frequencyBinCount;
     const dataArray = new Uint8Array(bufferLength);
+    const meterData = new Float32Array(meterAnalyser.fftSize);
     
+    levelsRef.current = createLevelMeterState();
+    setLevels(levelsRef.current);
+    
+    // Runs until releaseAudioGraph clears the analyser
     const updateVisualization = () => {
-      if (!analyserRef.current || !isRecording) return;
+      if (analyserRef.current !== analyser) return;
       
       requestAnimationFrame(updateVisualization);
-      analyserRef.current.getByteFrequencyData(dataArray);
+      analyser.getByteFrequencyData(dataArray);
       
       // Convert to normalized values for visualization
       const visualData = Array.from(dataArray).map(val => val / 256);
       setAudioData(visualData.slice(0, 64)); // Use subset for better visualization
+      
+      meterAnalyser.getFloatTimeDomainData(meterData);
+      levelsRef.current = updateLevelMeter(levelsRef.current, meterData, performance.now());
+      setLevels(levelsRef.current);
     };
     
     updateVisualization();
   };
 
-  // Start recording function
-  const startRecording = async () => {
-    try {
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      streamRef.current = stream;
+  // Feed the audio captured since the last read to the live estimator
+  const readLiveAudio = (samples: Float32Array) => {
+    const analyser = emotionAnalyserRef.current;
+    const audioContext = audioContextRef.current;
+    const estimator = liveEstimatorRef.current;
+    if (!analyser || !audioContext || !estimator) return;
+    
+    const now = audioContext.currentTime;
+    const frameCount = Math.min(samples.length, Math.round((now - liveReadAtRef.current) * audioContext.sampleRate));
+    liveReadAtRef.current = now;
+    if (frameCount <= 0) return;
+    
+    analyser.getFloatTimeDomainData(samples);
+    estimator.push(samples.subarray(samples.length - frameCount));
+  };
+  
+  const startLiveEmotion = () => {
+    stopLiveEmotion();
+    if (!audioContextRef.current) return;
+    
+    const samples = new Float32Array(LIVE_ANALYSER_FFT_SIZE);
+    liveReadAtRef.current = audioContextRef.current.currentTime;
+    liveTimerRef.current = setInterval(() => readLiveAudio(samples), LIVE_POLL_MS);
+  };
+  
+  const stopLiveEmotion = () => {
+    if (liveTimerRef.current) {
+      clearInterval(liveTimerRef.current);
+      liveTimerRef.current = null;
+    }
+  };
+
+  const resetLevelPeaks = () => {
+    levelsRef.current = resetLevelMeterPeaks(levelsRef.current);
+    setLevels(levelsRef.current);
+  };
+
+  // Open the selected inputs and the analysis graph shared by recording and mic tests.
+  // Tab audio, alone or mixed with the microphone, goes through a gain per input
+  // into a single node; its stream feeds MediaRecorder so every path records the mix.
+  const openInputGraph = async (sampleRate?: number) => {
+    const streams: MediaStream[] = [];
+    streamsRef.current = streams;
+    
+    let micStream: MediaStream | null = null;
+    if (usesMicrophone(captureSettings)) {
+      micStream = await navigator.mediaDevices.getUserMedia({
+        audio: buildAudioConstraints(captureSettings)
+      });
+      streams.push(micStream);
       
-      // Setup audio visualization
-      setupAudioVisualization(stream);
+      // Device labels become available once permission is granted
+      refreshInputDevices();
+    }
+    
+    let displayStream: MediaStream | null = null;
+    if (usesDisplayAudio(captureSettings)) {
+      displayStream = await openDisplayAudioStream();
+      streams.push(displayStream);
       
-      const mediaRecorder = new MediaRecorder(stream);
-      mediaRecorderRef.current = mediaRecorder;
+      // The browser's "Stop sharing" button ends the tab audio mid-take
+      displayStream.getAudioTracks()[0].addEventListener('ended', () => {
+        if (!streamsRef.current.includes(displayStream)) return;
+        toast.warning("Screen sharing ended", {
+          description: "Tab audio is no longer being captured."
+        });
+      });
+    }
+    
+    const audioContext = sampleRate ? new AudioContext({ sampleRate }) : new AudioContext();
+    audioContextRef.current = audioContext;
+    
+    let source: AudioNode;
+    let stream: MediaStream;
+    if (micStream && !displayStream) {
+      source = audioContext.createMediaStreamSource(micStream);
+      stream = micStream;
+    } else {
+      const mixer = audioContext.createGain();
       
-      mediaRecorder.addEventListener('dataavailable', (event) => {
-        if (event.data.size > 0) {
-          audioChunksRef.current.push(event.data);
-        }
+      if (micStream) {
+        const micGain = audioContext.createGain();
+        micGain.gain.value = captureSettings.micGain;
+        audioContext.createMediaStreamSource(micStream).connect(micGain).connect(mixer);
+        micGainRef.current = micGain;
+      }
+      
+      const displayGain = audioContext.createGain();
+      displayGain.gain.value = captureSettings.displayGain;
+      audioContext.createMediaStreamSource(displayStream).connect(displayGain).connect(mixer);
+      displayGainRef.current = displayGain;
+      
+      const destination = audioContext.createMediaStreamDestination();
+      mixer.connect(destination);
+      source = mixer;
+      stream = destination.stream;
+    }
+    
+    // Setup audio visualization
+    setupAudioVisualization(audioContext, source);
+    
+    return { stream, audioContext, source };
+  };
+
+  const notifyDisplayCaptureError = (error: DisplayCaptureError) => {
+    console.error("Error capturing tab audio:", error);
+    toast.error(error.reason === 'cancelled' ? "Screen sharing cancelled" : "No tab audio", {
+      description: error.message
+    });
+  };
+
+  // Check gain staging before recording, without starting a recorder
+  const startMicTest = async () => {
+    try {
+      await openInputGraph();
+      setIsTesting(true);
+    } catch (error) {
+      releaseAudioGraph();
+      if (error instanceof DisplayCaptureError) {
+        notifyDisplayCaptureError(error);
+        return;
+      }
+      console.error("Error accessing microphone:", error);
+      toast.error("Microphone unavailable", {
+        description: "Please allow microphone access and check the selected input device."
       });
+    }
+  };
+
+  const stopMicTest = () => {
+    releaseAudioGraph();
+    setIsTesting(false);
+  };
+
+  // Persistence never blocks the recording itself, failures are only logged
+  const persistChunk = (data: Blob | Float32Array[]) => {
+    const sessionId = sessionIdRef.current;
+    if (!sessionId) return;
+    
+    appendRecordingChunk(sessionId, data).catch(error => {
+      console.error("Error persisting recording chunk:", error);
+    });
+  };
+
+  const startPersistence = async (meta: Omit<RecordingSessionMeta, 'id' | 'startedAt'>) => {
+    try {
+      sessionIdRef.current = await createRecordingSession(meta);
+    } catch (error) {
+      console.error("Error starting crash-safe recording:", error);
+      sessionIdRef.current = null;
+    }
+  };
+
+  const finishPersistence = () => {
+    const sessionId = sessionIdRef.current;
+    sessionIdRef.current = null;
+    if (!sessionId) return;
+    
+    discardRecordingSession(sessionId).catch(error => {
+      console.error("Error clearing persisted recording:", error);
+    });
+  };
+
+  // Start recording function
+  const startRecording = async () => {
+    // A running mic test holds the input with possibly different settings
+    if (isTesting) {
+      stopMicTest();
+    }
+    
+    try {
+      // The WAV path records at the context rate, so the context is created at the chosen sample rate
+      const { stream, audioContext, source } = await openInputGraph(
+        captureSettings.format === 'wav' ? captureSettings.sampleRate : undefined
+      );
       
-      mediaRecorder.addEventListener('stop', () => {
-        const audioBlob = new Blob(audioChunksRef.current, { type: 'audio/wav' });
-        const url = URL.createObjectURL(audioBlob);
+      if (captureSettings.format === 'wav') {
+        mediaRecorderRef.current = null;
+        pcmRecorderRef.current = await createPcmRecorder(audioContext, source, {
+          channelCount: captureSettings.channelCount,
+          bitDepth: captureSettings.bitDepth,
+          onData: persistChunk
+        });
+        await startPersistence({
+          format: 'wav',
+          mimeType: 'audio/wav',
+          sampleRate: audioContext.sampleRate,
+          channelCount: captureSettings.channelCount,
+          bitDepth: captureSettings.bitDepth
+        });
+      } else {
+        pcmRecorderRef.current = null;
+        const mediaRecorder = new MediaRecorder(stream);
+        mediaRecorderRef.current = mediaRecorder;
         
-        setRecordingBlob(audioBlob);
-        setAudioUrl(url);
+        mediaRecorder.addEventListener('dataavailable', (event) => {
+          if (event.data.size > 0) {
+            audioChunksRef.current.push(event.data);
+            persistChunk(event.data);
+          }
+        });
         
-        // Reset for next recording
-        audioChunksRef.current = [];
-      });
-      
-      // Clear any previous recordings
-      if (audioUrl) {
-        URL.revokeObjectURL(audioUrl);
-        setAudioUrl(null);
+        await startPersistence({
+          format: 'compressed',
+          mimeType: mediaRecorder.mimeType,
+          sampleRate: audioContext.sampleRate,
+          channelCount: captureSettings.channelCount,
+          bitDepth: captureSettings.bitDepth
+        });
       }
       
-      setRecordingBlob(null);
+      // Previous takes are kept, the player is cleared while recording
+      setPreviewTakeId(null);
       setRecordingTime(0);
+      clockAccumulatedRef.current = 0;
+      clockStartedAtRef.current = null;
       setIsRecording(true);
       setIsPaused(false);
+      setLiveEmotion(null);
+      const calibration = getActiveProfile(loadCalibrationSettings())?.calibration ?? null;
+      liveEstimatorRef.current = createLiveEmotionEstimator(
+        audioContext.sampleRate,
+        withCalibration(LIVE_CLASSIFIER, calibration),
+        setLiveEmotion
+      );
       
-      mediaRecorder.start();
+      if (pcmRecorderRef.current) {
+        pcmRecorderRef.current.start();
+      } else {
+        mediaRecorderRef.current.start(PERSIST_TIMESLICE_MS);
+      }
       startTimer();
+      startLiveEmotion();
       
       toast.success("Recording started", {
         description: "Recording your audio..."
       });
     } catch (error) {
-      console.error("Error accessing microphone:", error);
-      toast.error("Microphone access denied", {
-        description: "Please allow microphone access to record audio."
-      });
+      releaseAudioGraph();
+      finishPersistence();
+      
+      if (error instanceof DisplayCaptureError) {
+        notifyDisplayCaptureError(error);
+      } else if (error instanceof DOMException && error.name === 'OverconstrainedError') {
+        console.error("Selected input device unavailable:", error);
+        toast.error("Microphone unavailable", {
+          description: "The selected input device could not be opened. Pick another one in the settings."
+        });
+      } else if (error instanceof DOMException && error.name === 'NotAllowedError') {
+        console.error("Error accessing microphone:", error);
+        toast.error("Microphone access denied", {
+          description: "Please allow microphone access to record audio."
+        });
+      } else {
+        console.error("Error starting recording:", error);
+        toast.error("Recording failed", {
+          description: "Could not start the audio capture. Try the compressed format instead."
+        });
+      }
+    }
+  };
+
+  // Release the microphone, any shared tab and the analysis graph
+  const releaseAudioGraph = () => {
+    stopLiveEmotion();
+    liveEstimatorRef.current = null;
+    emotionAnalyserRef.current = null;
+    
+    const streams = streamsRef.current;
+    streamsRef.current = [];
+    streams.forEach(stream => stream.getTracks().forEach(track => track.stop()));
+    micGainRef.current = null;
+    displayGainRef.current = null;
+    
+    if (audioContextRef.current) {
+      audioContextRef.current.close();
+      audioContextRef.current = null;
+      analyserRef.current = null;
     }
   };
 
   // Stop recording function
-  const stopRecording = () => {
-    if (!mediaRecorderRef.current) return;
+  const stopRecording = async () => {
+    if (!mediaRecorderRef.current && !pcmRecorderRef.current) return;
     
-    if (recordingTime < minRecordingTime) {
+    const elapsedTime = getElapsedTime();
+    if (elapsedTime < minRecordingTime) {
       toast.warning(`Recording is too short`, {
         description: `Please record for at least ${minRecordingTime} seconds.`
       });
       return;
     }
     
-    mediaRecorderRef.current.stop();
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach(track => track.stop());
-    }
+    pauseTimer();
+    stopLiveEmotion();
+    // Estimates are folded in as they are made, so the final one needs no extra pass
+    const takeEmotion = liveEstimatorRef.current?.getOverall() ?? null;
+    let duration = elapsedTime;
     
-    if (timerRef.current) {
-      clearInterval(timerRef.current);
+    let audioBlob: Blob;
+    if (pcmRecorderRef.current) {
+      // The worklet flushes its last block before the graph can be torn down
+      const pcmRecorder = pcmRecorderRef.current;
+      audioBlob = await pcmRecorder.stop();
+      pcmRecorderRef.current = null;
+      
+      // The sample count is exact for PCM captures
+      duration = pcmRecorder.getRecordedFrames() / pcmRecorder.sampleRate;
+    } else {
+      const mediaRecorder = mediaRecorderRef.current;
+      audioBlob = await new Promise<Blob>(resolve => {
+        mediaRecorder.addEventListener('stop', () => {
+          // Label the blob with the container MediaRecorder actually produced
+          const mimeType = mediaRecorder.mimeType || audioChunksRef.current[0]?.type || 'audio/webm';
+          resolve(new Blob(audioChunksRef.current, { type: mimeType }));
+          
+          // Reset for next recording
+          audioChunksRef.current = [];
+        }, { once: true });
+        mediaRecorder.stop();
+      });
+      mediaRecorderRef.current = null;
     }
+    releaseAudioGraph();
+    finishPersistence();
+    addTake(audioBlob, duration, { emotion: takeEmotion });
     
+    setRecordingTime(duration);
     setIsRecording(false);
     setIsPaused(false);
     
     toast.success("Recording completed", {
-      description: `Audio recorded successfully (${recordingTime}s)`
+      description: `Audio recorded successfully (${formatTime(duration)})`
     });
   };
 
   // Pause/resume recording functions
   const pauseRecording = () => {
-    if (!mediaRecorderRef.current) return;
+    const recorder = pcmRecorderRef.current ?? mediaRecorderRef.current;
+    if (!recorder) return;
     
-    mediaRecorderRef.current.pause();
+    recorder.pause();
     pauseTimer();
+    stopLiveEmotion();
     setIsPaused(true);
   };
 
   const resumeRecording = () => {
-    if (!mediaRecorderRef.current) return;
+    const recorder = pcmRecorderRef.current ?? mediaRecorderRef.current;
+    if (!recorder) return;
     
-    mediaRecorderRef.current.resume();
+    recorder.resume();
     startTimer();
+    // Audio heard while paused was not recorded and must not count
+    startLiveEmotion();
     setIsPaused(false);
   };
 
-  // Format time for display (MM:SS format)
+  // Format time for display (MM:SS.t format)
   const formatTime = (seconds: number): string => {
-    const mins = Math.floor(seconds / 60);
-    const secs = seconds % 60;
-    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
+    const tenths = Math.floor(seconds * 10);
+    const mins = Math.floor(tenths / 600);
+    const secs = Math.floor((tenths % 600) / 10);
+    return `${mins.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}.${tenths % 10}`;
   };
 
   // Audio playback controls
@@ -236,12 +704,12 @@ const AudioRecorder = ({ onRecordingComplete, minRecordingTime = 30 }: AudioReco
   };
 
   // Download recording
-  const downloadRecording = () => {
-    if (!audioUrl || !recordingBlob) return;
+  const downloadRecording = (take: Take | null = previewTake) => {
+    if (!take) return;
     
     const a = document.createElement('a');
-    a.href = audioUrl;
-    a.download = `recording-${new Date().toISOString()}.wav`;
+    a.href = take.url;
+    a.download = `${take.label.trim() || 'recording'}-${take.createdAt.toISOString()}.${getFileExtension(take.blob.type)}`;
     a.click();
     
     toast.success("Recording downloaded", {
@@ -249,28 +717,208 @@ const AudioRecorder = ({ onRecordingComplete, minRecordingTime = 30 }: AudioReco
     });
   };
 
-  // Handle completion when a recording exists
-  const handleComplete = () => {
-    if (recordingBlob) {
-      onRecordingComplete(recordingBlob);
+  // Keep a finished or recovered take; it becomes the previewed and only selected take
+  const addTake = (
+    blob: Blob,
+    duration: number,
+    { label, emotion = null }: { label?: string; emotion?: EmotionResult | null } = {}
+  ) => {
+    takeCountRef.current += 1;
+    const take: Take = {
+      id: `take-${Date.now().toString(36)}-${takeCountRef.current}`,
+      label: label ?? `Take ${takeCountRef.current}`,
+      blob,
+      url: URL.createObjectURL(blob),
+      duration,
+      createdAt: new Date(),
+      emotion
+    };
+    
+    setTakes(prev => [...prev, take]);
+    setSelectedTakeIds([take.id]);
+    setPreviewTakeId(take.id);
+    setRecordingTime(duration);
+  };
+
+  const deleteTake = (takeId: string) => {
+    const take = takes.find(item => item.id === takeId);
+    if (!take) return;
+    
+    URL.revokeObjectURL(take.url);
+    const remaining = takes.filter(item => item.id !== takeId);
+    setTakes(remaining);
+    setSelectedTakeIds(prev => prev.filter(id => id !== takeId));
+    if (previewTakeId === takeId) {
+      setPreviewTakeId(remaining[remaining.length - 1]?.id ?? null);
+    }
+  };
+
+  const renameTake = (takeId: string, label: string) => {
+    setTakes(prev => prev.map(take => take.id === takeId ? { ...take, label } : take));
+  };
+
+  const toggleTakeSelection = (takeId: string) => {
+    setSelectedTakeIds(prev => prev.includes(takeId)
+      ? prev.filter(id => id !== takeId)
+      : [...prev, takeId]
+    );
+  };
+
+  // Load a take into the player and start it once it has loaded
+  const playTake = (takeId: string) => {
+    if (takeId === previewTakeId) {
+      playerRef.current?.play();
+      return;
+    }
+    autoPlayRef.current = true;
+    setPreviewTakeId(takeId);
+  };
+
+  // Reassemble an interrupted take and load it as the current recording
+  const recoverSession = async (session: RecordingSessionMeta) => {
+    setIsRecovering(true);
+    
+    try {
+      const recoveredBlob = await recoverRecordingSession(session);
+      
+      let duration = 0;
+      try {
+        const audioBuffer = await decodeAudioBlob(recoveredBlob);
+        duration = audioBuffer.duration;
+      } catch (error) {
+        console.error("Error reading recovered recording duration:", error);
+      }
+      addTake(recoveredBlob, duration, { label: 'Recovered take' });
+      
+      await discardSession(session);
+      toast.success("Recording recovered", {
+        description: "Your interrupted take is ready to play, download or use."
+      });
+    } catch (error) {
+      console.error("Error recovering recording:", error);
+      toast.error("Recovery failed", {
+        description: "The interrupted recording could not be reassembled."
+      });
+    } finally {
+      setIsRecovering(false);
+    }
+  };
+
+  const discardSession = async (session: RecordingSessionMeta) => {
+    setInterruptedSessions(prev => prev.filter(item => item.id !== session.id));
+    
+    try {
+      await discardRecordingSession(session.id);
+    } catch (error) {
+      console.error("Error discarding interrupted recording:", error);
+    }
+  };
+
+  // Hand over the selected take, or the selected takes joined in list order
+  const handleComplete = async () => {
+    const selectedTakes = takes.filter(take => selectedTakeIds.includes(take.id));
+    if (!selectedTakes.length) return;
+    
+    if (selectedTakes.length === 1) {
+      onRecordingComplete(selectedTakes[0].blob, selectedTakes[0].duration, selectedTakes[0].emotion);
+      return;
+    }
+    
+    setIsCombining(true);
+    try {
+      const buffers = await Promise.all(selectedTakes.map(take => decodeAudioBlob(take.blob)));
+      const bitDepths = await Promise.all(selectedTakes.map(async take => readWavBitDepth(await take.blob.arrayBuffer())));
+      
+      // Joining must not quietly resample or requantise a take
+      const formats = new Set(buffers.map((buffer, index) => describeTakeFormat(buffer.sampleRate, bitDepths[index])));
+      if (formats.size > 1) {
+        toast.error("Takes have different formats", {
+          description: `Only takes with the same sample rate and bit depth can be joined (selected: ${[...formats].join(', ')}).`
+        });
+        return;
+      }
+      
+      const combinedBlob = createWavBlob(concatenateAudioBuffers(buffers), {
+        sampleRate: buffers[0].sampleRate,
+        bitDepth: bitDepths[0] ?? 16
+      });
+      const duration = buffers.reduce((total, buffer) => total + buffer.duration, 0);
+      
+      const emotion = mergeLiveEstimates(selectedTakes.map(take => ({ result: take.emotion, duration: take.duration })));
+      
+      onRecordingComplete(combinedBlob, duration, emotion);
+    } catch (error) {
+      console.error("Error combining takes:", error);
+      toast.error("Could not combine takes", {
+        description: "One of the selected takes could not be decoded."
+      });
+    } finally {
+      setIsCombining(false);
     }
   };
 
   return (
     <Card className="w-full">
       <CardContent className="p-6 space-y-4">
+        {/* Interrupted take recovery */}
+        {!isRecording && interruptedSessions.length > 0 && (
+          <Alert>
+            <History className="h-4 w-4" />
+            <AlertTitle>Interrupted recording found</AlertTitle>
+            <AlertDescription className="space-y-3">
+              <p>
+                A take started {new Date(interruptedSessions[0].startedAt).toLocaleString()} was not finished.
+                You can recover what was captured before the page closed.
+              </p>
+              <div className="flex gap-2">
+                <Button 
+                  size="sm" 
+                  onClick={() => recoverSession(interruptedSessions[0])}
+                  disabled={isRecovering}
+                  className="gap-2"
+                >
+                  <History className="h-4 w-4" />
+                  Recover
+                </Button>
+                <Button 
+                  size="sm" 
+                  variant="outline" 
+                  onClick={() => discardSession(interruptedSessions[0])}
+                  disabled={isRecovering}
+                  className="gap-2"
+                >
+                  <Trash2 className="h-4 w-4" />
+                  Discard
+                </Button>
+              </div>
+            </AlertDescription>
+          </Alert>
+        )}
+        
         {/* Audio visualization component */}
         <div className="aspect-[4/1] w-full bg-secondary/20 rounded-lg overflow-hidden flex items-center justify-center">
-          {isRecording ? (
-            <AudioVisualizer audioData={audioData} isRecording={isRecording} isPaused={isPaused} />
+          {isRecording || isTesting ? (
+            <AudioVisualizer
+              audioData={audioData}
+              isRecording={isRecording}
+              isPaused={isPaused}
+              liveEmotion={liveEmotion}
+            />
           ) : (
             <div className="text-center w-full">
               {audioUrl ? (
                 <div className="w-full">
                   <audio 
+                    ref={playerRef}
                     controls 
                     className="w-full" 
                     src={audioUrl}
+                    onLoadedData={(event) => {
+                      if (autoPlayRef.current) {
+                        autoPlayRef.current = false;
+                        event.currentTarget.play();
+                      }
+                    }}
                     onPlay={() => setIsPlaying(true)}
                     onPause={() => setIsPlaying(false)}
                     onEnded={() => setIsPlaying(false)}
@@ -283,6 +931,38 @@ const AudioRecorder = ({ onRecordingComplete, minRecordingTime = 30 }: AudioReco
           )}
         </div>
 
+        {/* Input level meter */}
+        {(isRecording || isTesting) && (
+          <LevelMeter levels={levels} onResetPeaks={resetLevelPeaks} />
+        )}
+
+        {/* Microphone / tab balance, adjustable while recording */}
+        {(isRecording || isTesting) && captureSettings.source === 'mixed' && (
+          <div className="grid grid-cols-2 gap-4">
+            {([
+              { key: 'micGain', label: 'Microphone' },
+              { key: 'displayGain', label: 'Tab audio' },
+            ] as const).map(channel => (
+              <div key={channel.key} className="space-y-2">
+                <div className="flex justify-between text-xs">
+                  <Label>{channel.label}</Label>
+                  <span className="font-mono text-muted-foreground">
+                    {Math.round(captureSettings[channel.key] * 100)}%
+                  </span>
+                </div>
+                <Slider
+                  value={[captureSettings[channel.key]]}
+                  min={0}
+                  max={MAX_MIX_GAIN}
+                  step={0.05}
+                  onValueChange={([value]) => setCaptureSettings(prev => ({ ...prev, [channel.key]: value }))}
+                  aria-label={`${channel.label} level`}
+                />
+              </div>
+            ))}
+          </div>
+        )}
+
         {/* Recording time display */}
         <div className="flex justify-center">
           <div className={`text-2xl font-mono ${isRecording && !isPaused ? 'text-primary animate-pulse' : ''}`}>
@@ -304,26 +984,48 @@ const AudioRecorder = ({ onRecordingComplete, minRecordingTime = 30 }: AudioReco
                 Start Recording
               </Button>
               
-              {recordingBlob && (
+              <Button 
+                variant="outline" 
+                size="lg"
+                onClick={isTesting ? stopMicTest : startMicTest}
+                className="gap-2"
+              >
+                {isTesting ? <MicOff className="h-5 w-5" /> : <Gauge className="h-5 w-5" />}
+                {isTesting ? "Stop Test" : captureSettings.source === 'microphone' ? "Test Mic" : "Test Input"}
+              </Button>
+              
+              <CaptureSettingsPopover
+                settings={captureSettings}
+                onSettingsChange={(changes) => setCaptureSettings(prev => ({ ...prev, ...changes }))}
+                devices={inputDevices}
+                isPcmSupported={isPcmRecordingSupported()}
+                isDisplaySupported={isDisplayCaptureSupported()}
+                disabled={isTesting}
+              />
+              
+              {takes.length > 0 && (
                 <>
                   <Button 
                     variant="secondary" 
                     size="lg"
                     onClick={handleComplete}
+                    disabled={!selectedTakeIds.length || isCombining}
                     className="gap-2"
                   >
-                    <Save className="h-5 w-5" />
-                    Use Recording
-                  </Button>
-                  <Button 
-                    variant="outline" 
-                    size="lg"
-                    onClick={downloadRecording}
-                    className="gap-2"
-                  >
-                    <Download className="h-5 w-5" />
-                    Download
+                    {isCombining ? <Loader2 className="h-5 w-5 animate-spin" /> : <Save className="h-5 w-5" />}
+                    {selectedTakeIds.length > 1 ? `Use ${selectedTakeIds.length} Takes` : "Use Recording"}
                   </Button>
+                  {recordingBlob && (
+                    <Button 
+                      variant="outline" 
+                      size="lg"
+                      onClick={() => downloadRecording()}
+                      className="gap-2"
+                    >
+                      <Download className="h-5 w-5" />
+                      Download
+                    </Button>
+                  )}
                 </>
               )}
             </>
@@ -364,12 +1066,26 @@ const AudioRecorder = ({ onRecordingComplete, minRecordingTime = 30 }: AudioReco
           )}
         </div>
         
+        {/* Takes kept in this session */}
+        {!isRecording && takes.length > 0 && (
+          <TakeList
+            takes={takes}
+            selectedTakeIds={selectedTakeIds}
+            previewTakeId={previewTakeId}
+            onToggleSelect={toggleTakeSelection}
+            onRename={renameTake}
+            onPreview={playTake}
+            onDownload={downloadRecording}
+            onDelete={deleteTake}
+          />
+        )}
+        
         {/* Recording progress indicator */}
         {isRecording && minRecordingTime > 0 && (
           <div className="w-full mt-2">
             <div className="text-xs text-center text-muted-foreground mb-1">
               {recordingTime < minRecordingTime 
-                ? `Record for at least ${minRecordingTime - recordingTime} more seconds...`
+                ? `Record for at least ${Math.ceil(minRecordingTime - recordingTime)} more seconds...`
                 : "Minimum recording time reached!"
               }
             </div>
@@ -1,13 +1,18 @@
 
 import React, { useMemo } from 'react';
+import { type EmotionResult } from '@/lib/emotion/classifier';
+import { MOOD_COLORS } from '@/lib/emotion/palette';
+import { MOOD_LABELS } from '@/lib/emotion/scores';
 
 type AudioVisualizerProps = {
   audioData: number[];
   isRecording: boolean;
   isPaused: boolean;
+  // Rolling estimate from live detection, null while the input is silent
+  liveEmotion?: EmotionResult | null;
 };
 
-const AudioVisualizer = ({ audioData, isRecording, isPaused }: AudioVisualizerProps) => {
+const AudioVisualizer = ({ audioData, isRecording, isPaused, liveEmotion }: AudioVisualizerProps) => {
   // Create a subset of data for smoother visualization
   const visualizationData = useMemo(() => {
     if (!audioData.length) {
@@ -39,6 +44,21 @@ const AudioVisualizer = ({ audioData, isRecording, isPaused }: AudioVisualizerPr
         </div>
       )}
       
+      {/* Live mood badge */}
+      {isRecording && (
+        <div className="absolute top-4 right-4 flex items-center gap-2 rounded-full bg-black/40 px-2 py-0.5">
+          <div
+            className="h-2.5 w-2.5 rounded-full bg-white/40"
+            style={liveEmotion ? { backgroundColor: MOOD_COLORS[liveEmotion.mood] } : undefined}
+          />
+          <span className="text-xs text-white/80">
+            {liveEmotion
+              ? `${MOOD_LABELS[liveEmotion.mood]} ${Math.round(liveEmotion.confidence * 100)}%`
+              : 'Listening...'}
+          </span>
+        </div>
+      )}
+      
       {/* Audio visualization bars */}
       <div className="flex items-center justify-center w-full h-full gap-1 px-4">
         {visualizationData.map((value, index) => {
@@ -0,0 +1,231 @@
+import React, { useState } from 'react';
+import { Check, Loader2, Mic, Trash2, UserCog } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { buildAudioConstraints, loadCaptureSettings } from '@/lib/audio/capture-settings';
+import { recordAudioClip } from '@/lib/audio/clip-recorder';
+import { type AudioFeatures } from '@/lib/audio/features';
+import {
+  CALIBRATION_CLIP_DURATION,
+  CALIBRATION_CLIPS,
+  CALIBRATION_PROMPTS,
+  CalibrationError,
+  computeCalibration,
+  measureCalibrationClip,
+  type CalibrationClip,
+  type CalibrationProfile,
+  type FeatureCalibration,
+} from '@/lib/emotion/calibration';
+import { MOOD_LABELS } from '@/lib/emotion/scores';
+
+type CalibrationDialogProps = {
+  profiles: CalibrationProfile[];
+  activeProfile: CalibrationProfile | null;
+  // Passing an existing profile id re-calibrates that profile
+  onSaveProfile: (name: string, calibration: FeatureCalibration, profileId?: string) => void;
+  onSelectProfile: (profileId: string | null) => void;
+  onDeleteProfile: (profileId: string) => void;
+  disabled?: boolean;
+};
+
+// Select value standing for "no profile", since Select items can't be empty
+const NO_PROFILE = 'none';
+
+const CLIP_LABELS: Record<CalibrationClip, string> = {
+  neutral: "Neutral",
+  happy: MOOD_LABELS.happy,
+  angry: MOOD_LABELS.angry,
+};
+
+const CalibrationDialog = ({
+  profiles,
+  activeProfile,
+  onSaveProfile,
+  onSelectProfile,
+  onDeleteProfile,
+  disabled,
+}: CalibrationDialogProps) => {
+  // Set while reference clips are being recorded; the id is set when re-calibrating
+  const [session, setSession] = useState<{ profileId?: string } | null>(null);
+  const [name, setName] = useState('');
+  const [clips, setClips] = useState<Partial<Record<CalibrationClip, AudioFeatures>>>({});
+  const [recordingClip, setRecordingClip] = useState<CalibrationClip | null>(null);
+
+  const startSession = (profile?: CalibrationProfile) => {
+    setSession({ profileId: profile?.id });
+    setName(profile?.name ?? `Profile ${profiles.length + 1}`);
+    setClips({});
+  };
+
+  const recordClip = async (clip: CalibrationClip) => {
+    setRecordingClip(clip);
+    try {
+      const buffer = await recordAudioClip(CALIBRATION_CLIP_DURATION, buildAudioConstraints(loadCaptureSettings()));
+      const features = measureCalibrationClip(clip, buffer.getChannelData(0), buffer.sampleRate);
+      setClips(prev => ({ ...prev, [clip]: features }));
+    } catch (error) {
+      console.error("Error recording calibration clip:", error);
+      toast.error("Recording failed", {
+        description: error instanceof CalibrationError
+          ? error.message
+          : error instanceof DOMException && error.name === 'NotAllowedError'
+            ? "Please allow microphone access to calibrate."
+            : "The reference clip could not be recorded."
+      });
+    } finally {
+      setRecordingClip(null);
+    }
+  };
+
+  const saveSession = () => {
+    if (!session || CALIBRATION_CLIPS.some(clip => !clips[clip])) return;
+
+    try {
+      const calibration = computeCalibration(clips as Record<CalibrationClip, AudioFeatures>);
+      onSaveProfile(name.trim() || "Unnamed profile", calibration, session.profileId);
+      setSession(null);
+      toast.success("Calibration saved", {
+        description: "Emotion detection now adapts to this voice."
+      });
+    } catch (error) {
+      console.error("Error computing calibration:", error);
+      toast.error("Calibration failed", {
+        description: error instanceof CalibrationError ? error.message : "The reference clips could not be measured."
+      });
+    }
+  };
+
+  return (
+    <Dialog onOpenChange={(open) => !open && setSession(null)}>
+      <DialogTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          disabled={disabled}
+          aria-label="Voice calibration"
+          title={activeProfile ? `Calibrated for ${activeProfile.name}` : "Voice calibration"}
+        >
+          <UserCog className={activeProfile ? "h-4 w-4 text-primary" : "h-4 w-4"} />
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Voice calibration</DialogTitle>
+          <DialogDescription>
+            Record three short reference clips so detection measures loudness, brightness and
+            pitch movement against your own voice rather than a typical one. Calibration applies
+            to the built-in rules; imported models always receive the raw features.
+          </DialogDescription>
+        </DialogHeader>
+
+        {session ? (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="calibration-name">Profile name</Label>
+              <Input id="calibration-name" value={name} onChange={(event) => setName(event.target.value)} />
+            </div>
+            {CALIBRATION_CLIPS.map(clip => (
+              <div key={clip} className="flex items-start gap-3 rounded-md border p-3">
+                <div className="flex-1 space-y-1">
+                  <p className="text-sm font-medium flex items-center gap-2">
+                    {CLIP_LABELS[clip]}
+                    {clips[clip] && <Check className="h-4 w-4 text-primary" />}
+                  </p>
+                  <p className="text-xs text-muted-foreground">{CALIBRATION_PROMPTS[clip]}</p>
+                </div>
+                <Button
+                  size="sm"
+                  variant={clips[clip] ? "outline" : "default"}
+                  className="gap-2"
+                  onClick={() => recordClip(clip)}
+                  disabled={recordingClip !== null}
+                >
+                  {recordingClip === clip ? <Loader2 className="h-4 w-4 animate-spin" /> : <Mic className="h-4 w-4" />}
+                  {recordingClip === clip ? `${CALIBRATION_CLIP_DURATION}s...` : clips[clip] ? "Redo" : "Record"}
+                </Button>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="calibration-profile">Active profile</Label>
+              <div className="flex items-center gap-2">
+                <Select
+                  value={activeProfile?.id ?? NO_PROFILE}
+                  onValueChange={(value) => onSelectProfile(value === NO_PROFILE ? null : value)}
+                >
+                  <SelectTrigger id="calibration-profile" className="flex-1">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NO_PROFILE}>No calibration</SelectItem>
+                    {profiles.map(profile => (
+                      <SelectItem key={profile.id} value={profile.id}>{profile.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {activeProfile && (
+                  <Button
+                    size="sm"
+                    variant="ghost"
+                    className="h-9 w-9 p-0 text-destructive"
+                    onClick={() => onDeleteProfile(activeProfile.id)}
+                    aria-label="Delete profile"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+              {activeProfile && (
+                <p className="text-xs text-muted-foreground">
+                  Calibrated {new Date(activeProfile.createdAt).toLocaleString()}
+                </p>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {session ? (
+            <>
+              <Button variant="outline" onClick={() => setSession(null)} disabled={recordingClip !== null}>
+                Cancel
+              </Button>
+              <Button
+                onClick={saveSession}
+                disabled={recordingClip !== null || CALIBRATION_CLIPS.some(clip => !clips[clip])}
+              >
+                Save Calibration
+              </Button>
+            </>
+          ) : (
+            <>
+              {activeProfile && (
+                <Button variant="outline" onClick={() => startSession(activeProfile)}>
+                  Re-calibrate
+                </Button>
+              )}
+              <Button onClick={() => startSession()}>New Profile</Button>
+            </>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CalibrationDialog;
@@ -0,0 +1,187 @@
+import React from 'react';
+import { Settings2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import {
+  BIT_DEPTH_OPTIONS,
+  SAMPLE_RATE_OPTIONS,
+  type CaptureFormat,
+  type CaptureSettings,
+  type CaptureSource,
+} from '@/lib/audio/capture-settings';
+import { type WavBitDepth } from '@/lib/audio/wav';
+
+type CaptureSettingsPopoverProps = {
+  settings: CaptureSettings;
+  onSettingsChange: (changes: Partial<CaptureSettings>) => void;
+  devices: MediaDeviceInfo[];
+  isPcmSupported: boolean;
+  isDisplaySupported: boolean;
+  disabled?: boolean;
+};
+
+// Radix Select doesn't allow an empty value, so the default input gets a sentinel
+const DEFAULT_DEVICE_VALUE = 'system-default';
+
+const DSP_OPTIONS: { key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl'; label: string }[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Automatic gain control' },
+];
+
+const CaptureSettingsPopover = ({
+  settings,
+  onSettingsChange,
+  devices,
+  isPcmSupported,
+  isDisplaySupported,
+  disabled,
+}: CaptureSettingsPopoverProps) => {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="lg" className="gap-2" disabled={disabled}>
+          <Settings2 className="h-5 w-5" />
+          Settings
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="capture-source">Source</Label>
+          <Select
+            value={settings.source}
+            onValueChange={(value) => onSettingsChange({ source: value as CaptureSource })}
+          >
+            <SelectTrigger id="capture-source">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="microphone">Microphone</SelectItem>
+              <SelectItem value="display" disabled={!isDisplaySupported}>Tab or system audio</SelectItem>
+              <SelectItem value="mixed" disabled={!isDisplaySupported}>Microphone + tab audio</SelectItem>
+            </SelectContent>
+          </Select>
+          {settings.source !== 'microphone' && (
+            <p className="text-xs text-muted-foreground">
+              When the share dialog opens, pick a tab or screen and tick "Share audio".
+            </p>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="capture-device">Microphone</Label>
+          <Select
+            value={settings.deviceId ?? DEFAULT_DEVICE_VALUE}
+            disabled={settings.source === 'display'}
+            onValueChange={(value) => onSettingsChange({ deviceId: value === DEFAULT_DEVICE_VALUE ? null : value })}
+          >
+            <SelectTrigger id="capture-device">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={DEFAULT_DEVICE_VALUE}>System default</SelectItem>
+              {devices.map((device, index) => (
+                <SelectItem key={device.deviceId} value={device.deviceId}>
+                  {device.label || `Microphone ${index + 1}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-3">
+          {DSP_OPTIONS.map(option => (
+            <div key={option.key} className="flex items-center justify-between">
+              <Label htmlFor={`capture-${option.key}`}>{option.label}</Label>
+              <Switch
+                id={`capture-${option.key}`}
+                checked={settings[option.key]}
+                onCheckedChange={(checked) => onSettingsChange({ [option.key]: checked })}
+              />
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Turn these off for music and ambient recordings.
+          </p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="capture-channels">Channels</Label>
+            <Select
+              value={String(settings.channelCount)}
+              onValueChange={(value) => onSettingsChange({ channelCount: Number(value) as 1 | 2 })}
+            >
+              <SelectTrigger id="capture-channels">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="1">Mono</SelectItem>
+                <SelectItem value="2">Stereo</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="capture-sample-rate">Sample rate</Label>
+            <Select
+              value={String(settings.sampleRate)}
+              onValueChange={(value) => onSettingsChange({ sampleRate: Number(value) })}
+            >
+              <SelectTrigger id="capture-sample-rate">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SAMPLE_RATE_OPTIONS.map(rate => (
+                  <SelectItem key={rate} value={String(rate)}>{rate / 1000} kHz</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="capture-format">Format</Label>
+            <Select
+              value={settings.format}
+              onValueChange={(value) => onSettingsChange({ format: value as CaptureFormat })}
+            >
+              <SelectTrigger id="capture-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="wav" disabled={!isPcmSupported}>WAV (PCM)</SelectItem>
+                <SelectItem value="compressed">Compressed</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {settings.format === 'wav' && (
+            <div className="space-y-2">
+              <Label htmlFor="capture-bit-depth">Bit depth</Label>
+              <Select
+                value={String(settings.bitDepth)}
+                onValueChange={(value) => onSettingsChange({ bitDepth: Number(value) as WavBitDepth })}
+              >
+                <SelectTrigger id="capture-bit-depth">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {BIT_DEPTH_OPTIONS.map(depth => (
+                    <SelectItem key={depth} value={String(depth)}>
+                      {depth === 32 ? '32-bit float' : `${depth}-bit`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default CaptureSettingsPopover;
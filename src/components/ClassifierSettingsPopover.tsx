@@ -0,0 +1,123 @@
+import React, { useRef } from 'react';
+import { Loader2, Settings2, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Slider } from '@/components/ui/slider';
+import { FEATURE_NAMES } from '@/lib/audio/features';
+import { type ClassifierBackend } from '@/lib/emotion/classifier';
+import { MAX_CONFIDENCE_FLOOR, MIN_CONFIDENCE_FLOOR } from '@/lib/emotion/confidence';
+import { MOODS } from '@/lib/emotion/scores';
+
+type ClassifierSettingsPopoverProps = {
+  backend: ClassifierBackend;
+  onBackendChange: (backend: ClassifierBackend) => void;
+  confidenceFloor: number;
+  onConfidenceFloorChange: (floor: number) => void;
+  // Name of the imported ONNX model, null when none is loaded
+  modelName: string | null;
+  isLoadingModel: boolean;
+  onImportModel: (file: File) => void;
+  onRemoveModel: () => void;
+  disabled?: boolean;
+};
+
+const ClassifierSettingsPopover = ({
+  backend,
+  onBackendChange,
+  confidenceFloor,
+  onConfidenceFloorChange,
+  modelName,
+  isLoadingModel,
+  onImportModel,
+  onRemoveModel,
+  disabled,
+}: ClassifierSettingsPopoverProps) => {
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="ghost" size="sm" className="h-8 w-8 p-0" disabled={disabled} aria-label="Classifier settings">
+          <Settings2 className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="classifier-backend">Classifier</Label>
+          <Select value={backend} onValueChange={(value) => onBackendChange(value as ClassifierBackend)}>
+            <SelectTrigger id="classifier-backend">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="heuristic">Built-in rules</SelectItem>
+              <SelectItem value="onnx" disabled={!modelName}>ONNX model</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <Label htmlFor="confidence-floor">Confidence floor</Label>
+            <span className="text-xs text-muted-foreground font-mono">{Math.round(confidenceFloor * 100)}%</span>
+          </div>
+          <Slider
+            id="confidence-floor"
+            min={MIN_CONFIDENCE_FLOOR}
+            max={MAX_CONFIDENCE_FLOOR}
+            step={0.05}
+            value={[confidenceFloor]}
+            onValueChange={([value]) => onConfidenceFloorChange(value)}
+          />
+          <p className="text-xs text-muted-foreground">
+            Below this confidence no mood is suggested.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label>ONNX model</Label>
+          {modelName ? (
+            <div className="flex items-center gap-2">
+              <span className="flex-1 truncate text-sm" title={modelName}>{modelName}</span>
+              <Button size="sm" variant="ghost" className="h-8 w-8 p-0 text-destructive" onClick={onRemoveModel} aria-label="Remove model">
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No model imported.</p>
+          )}
+          <Button
+            size="sm"
+            variant="outline"
+            className="w-full gap-2"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={isLoadingModel}
+          >
+            {isLoadingModel ? <Loader2 className="h-4 w-4 animate-spin" /> : <Upload className="h-4 w-4" />}
+            {modelName ? "Replace Model" : "Import Model"}
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".onnx"
+            className="hidden"
+            onChange={(event) => {
+              const file = event.target.files?.[0];
+              // Allow picking the same file again after an error
+              event.target.value = '';
+              if (file) onImportModel(file);
+            }}
+          />
+          <p className="text-xs text-muted-foreground">
+            The model runs locally. It receives {FEATURE_NAMES.length} float features
+            ({FEATURE_NAMES.slice(0, 3).join(', ')}, …, {FEATURE_NAMES[FEATURE_NAMES.length - 1]}) as a [1, {FEATURE_NAMES.length}] tensor and must
+            return {MOODS.length} scores in the order {MOODS.join(', ')}.
+          </p>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default ClassifierSettingsPopover;
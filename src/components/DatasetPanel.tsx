@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Database, Download, Loader2, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { DATASET_FOLDER } from '@/lib/emotion/dataset-manifest';
+
+type DatasetPanelProps = {
+  isEnabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  sampleCount: number;
+  onExport: () => Promise<Blob>;
+  onClear: () => Promise<void>;
+};
+
+const DatasetPanel = ({ isEnabled, onEnabledChange, sampleCount, onExport, onClear }: DatasetPanelProps) => {
+  const [isExporting, setIsExporting] = useState(false);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const blob = await onExport();
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${DATASET_FOLDER}-${new Date().toISOString()}.zip`;
+      a.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Error exporting dataset:", error);
+      toast.error("Export failed", {
+        description: "The labeled samples could not be read."
+      });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleClear = async () => {
+    try {
+      await onClear();
+      toast.success("Dataset cleared");
+    } catch (error) {
+      console.error("Error clearing dataset:", error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Database className="h-4 w-4" />
+          Training Data
+        </CardTitle>
+        <CardDescription>
+          When you pick a different mood than the suggestion, keep the recording, its features
+          and your label on this device to train better models.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center gap-2">
+          <Switch id="dataset-enabled" checked={isEnabled} onCheckedChange={onEnabledChange} />
+          <Label htmlFor="dataset-enabled" className="text-sm">Save my corrections</Label>
+        </div>
+        <p className="text-sm text-muted-foreground">
+          {sampleCount === 1 ? "1 labeled sample" : `${sampleCount} labeled samples`}
+        </p>
+        <div className="flex gap-2">
+          <Button size="sm" variant="outline" className="gap-2" onClick={handleExport} disabled={!sampleCount || isExporting}>
+            {isExporting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Download className="h-4 w-4" />}
+            Export
+          </Button>
+          <Button size="sm" variant="ghost" className="gap-2 text-destructive" onClick={handleClear} disabled={!sampleCount}>
+            <Trash2 className="h-4 w-4" />
+            Clear
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DatasetPanel;
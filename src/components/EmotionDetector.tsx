@@ -1,123 +1,168 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
-import { Loader2, Brain } from 'lucide-react';
-import { type Mood } from './MoodSelector';
+import { Loader2, Brain, AlertTriangle } from 'lucide-react';
+import MoodScoreChart from './MoodScoreChart';
+import EmotionTimeline from './EmotionTimeline';
+import AffectCircumplex from './AffectCircumplex';
+import ClassifierSettingsPopover from './ClassifierSettingsPopover';
+import CalibrationDialog from './CalibrationDialog';
+import EmotionExplanationPanel from './EmotionExplanationPanel';
 import { toast } from 'sonner';
+import { type SpeechSegment } from '@/lib/audio/vad';
+import { decodeAudioBlob } from '@/lib/audio/decode';
+import { type EmotionResult } from '@/lib/emotion/classifier';
+import { type AnalysisProgress, type AnalysisStage, type ClassifierSpec } from '@/lib/emotion/analysis';
+import { analyzeInWorker } from '@/lib/emotion/analysis-client';
+import { UNCERTAIN_MESSAGES } from '@/lib/emotion/confidence';
+import { type EmotionExplanation } from '@/lib/emotion/explain';
+import { OnnxModelError } from '@/lib/emotion/onnx-classifier';
+import { DEFAULT_TIMELINE_WINDOW, type EmotionWindow } from '@/lib/emotion/timeline';
+import { useEmotionClassifier } from '@/hooks/use-emotion-classifier';
+import { useCalibration } from '@/hooks/use-calibration';
 
 type EmotionDetectorProps = {
   audioBlob?: Blob | null;
-  onEmotionDetected: (mood: Mood) => void;
+  speechSegments?: SpeechSegment[];
+  // Estimate made while recording, shown until a full detection is run
+  liveResult?: EmotionResult | null;
+  // Results scoring below this are reported as uncertain
+  confidenceFloor: number;
+  onConfidenceFloorChange: (floor: number) => void;
+  onEmotionDetected: (result: EmotionResult) => void;
 };
 
-// Simulated SER toolkit using Web Audio API for basic analysis
-const detectEmotionFromAudio = async (audioBlob: Blob): Promise<{ mood: Mood; confidence: number }> => {
-  // This simulates what a real SER toolkit would do with machine learning
-  console.log("Analyzing audio for emotional content...");
-  
-  // Create an audio context to analyze the audio
-  const audioContext = new AudioContext();
-  const arrayBuffer = await audioBlob.arrayBuffer();
-  const audioBuffer = await audioContext.decodeAudioData(arrayBuffer);
-  
-  // Get audio data for analysis
-  const channelData = audioBuffer.getChannelData(0);
-  
-  // Simplified audio feature extraction
-  // In a real implementation, we would:
-  // 1. Calculate MFCC (Mel-frequency cepstral coefficients)
-  // 2. Extract pitch and energy features
-  // 3. Feed these into a pre-trained model
-  
-  // Calculate simple energy metrics
-  let totalEnergy = 0;
-  let highFreqEnergy = 0;
-  let lowFreqEnergy = 0;
-  const sampleLength = channelData.length;
-  
-  // Simple energy calculation
-  for (let i = 0; i < sampleLength; i++) {
-    const value = channelData[i];
-    totalEnergy += value * value;
-    
-    // Crude frequency splitting (real implementations use FFT)
-    if (i % 2 === 0) {
-      highFreqEnergy += value * value;
-    } else {
-      lowFreqEnergy += value * value;
-    }
-  }
-  
-  // Normalize energies
-  totalEnergy /= sampleLength;
-  highFreqEnergy = highFreqEnergy / (sampleLength / 2);
-  lowFreqEnergy = lowFreqEnergy / (sampleLength / 2);
-  
-  // Simple rule-based classification
-  // In real ML models, these would be learned weights and thresholds
-  const energyRatio = highFreqEnergy / (lowFreqEnergy + 0.0001);
-  
-  console.log("Audio analysis:", { 
-    totalEnergy, 
-    highFreqEnergy, 
-    lowFreqEnergy, 
-    energyRatio 
-  });
-  
-  // For demo purposes, determine mood based on simple audio features
-  // High energy + high frequency = energetic/angry
-  // High energy + low frequency = happy
-  // Low energy + high frequency = sad
-  // Low energy + low frequency = calm
-  
-  let mood: Mood;
-  let confidence = 0.7; // Base confidence
-  
-  if (totalEnergy > 0.01) {
-    if (energyRatio > 1.1) {
-      // High energy and high frequency components
-      mood = Math.random() > 0.5 ? 'energetic' : 'angry';
-      confidence = 0.7 + (energyRatio - 1) * 0.2;
-    } else {
-      // High energy but lower frequency
-      mood = 'happy';
-      confidence = 0.7 + totalEnergy * 5;
-    }
-  } else {
-    if (energyRatio > 1.1) {
-      // Low energy but higher frequency components
-      mood = 'sad';
-      confidence = 0.7 + (energyRatio - 1) * 0.2;
-    } else {
-      // Low energy and low frequency
-      mood = 'calm';
-      confidence = 0.7 + (1 - energyRatio) * 0.2;
-    }
-  }
-  
-  // Cap confidence at 0.95
-  confidence = Math.min(confidence, 0.95);
-  
-  // Add some randomness to make it feel more realistic
-  if (Math.random() < 0.2) {
-    const moods: Mood[] = ['happy', 'calm', 'energetic', 'sad', 'angry'];
-    const currentIndex = moods.indexOf(mood);
-    const availableMoods = moods.filter((_, index) => index !== currentIndex);
-    mood = availableMoods[Math.floor(Math.random() * availableMoods.length)];
-    confidence = 0.6 + Math.random() * 0.2;
-  }
-  
-  // Simulate processing delay
-  await new Promise(resolve => setTimeout(resolve, 2000));
-  
-  return { mood, confidence };
+// The recording behind the current result
+type AnalyzedAudio = {
+  buffer: AudioBuffer;
+  speechSegments: SpeechSegment[];
+};
+
+// A timeline remembers what it was computed with, so it is only redone when
+// the window length or the classifier actually changes
+type TimelineState = {
+  windows: EmotionWindow[];
+  windowDuration: number;
+  classifier: ClassifierSpec;
 };
 
-const EmotionDetector = ({ audioBlob, onEmotionDetected }: EmotionDetectorProps) => {
+const STAGE_LABELS: Record<AnalysisStage, string> = {
+  features: "Extracting audio features",
+  timeline: "Classifying each window",
+};
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
+const EmotionDetector = ({
+  audioBlob,
+  speechSegments,
+  liveResult,
+  confidenceFloor,
+  onConfidenceFloorChange,
+  onEmotionDetected
+}: EmotionDetectorProps) => {
   const [isDetecting, setIsDetecting] = useState(false);
-  const [detectedEmotion, setDetectedEmotion] = useState<Mood | null>(null);
-  const [confidence, setConfidence] = useState<number | null>(null);
+  const [progress, setProgress] = useState<AnalysisProgress | null>(null);
+  const [result, setResult] = useState<EmotionResult | null>(null);
+  const [isLiveResult, setIsLiveResult] = useState(false);
+  const [explanation, setExplanation] = useState<EmotionExplanation | null>(null);
+  const [analyzed, setAnalyzed] = useState<AnalyzedAudio | null>(null);
+  const [timelineWindow, setTimelineWindow] = useState(DEFAULT_TIMELINE_WINDOW);
+  const [timeline, setTimeline] = useState<TimelineState | null>(null);
+  // Demo mode adds seeded variation; the same seed always gives the same answer
+  const [isDemoMode, setIsDemoMode] = useState(false);
+  const [demoSeed, setDemoSeed] = useState(1);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const {
+    backend,
+    setBackend,
+    classifier,
+    onnxClassifier,
+    onnxModel,
+    isLoadingModel,
+    importModel,
+    removeModel
+  } = useEmotionClassifier();
+  const { profiles, activeProfile, saveProfile, selectProfile, deleteProfile } = useCalibration();
+
+  // What the worker needs to rebuild the active classifier
+  const classifierSpec = useMemo<ClassifierSpec>(() => {
+    return classifier.backend === 'onnx' && onnxModel
+      ? { backend: 'onnx', name: onnxModel.name, model: onnxModel.data }
+      : { backend: 'heuristic', demoSeed: isDemoMode ? demoSeed : null, calibration: activeProfile?.calibration ?? null };
+  }, [classifier, onnxModel, isDemoMode, demoSeed, activeProfile]);
+
+  // The previous recording's analysis no longer applies to a new one
+  useEffect(() => {
+    abortControllerRef.current?.abort();
+    setResult(null);
+    setIsLiveResult(false);
+    setExplanation(null);
+    setAnalyzed(null);
+    setTimeline(null);
+  }, [audioBlob]);
+
+  // A recording may bring its own live estimate; runs after the reset above
+  useEffect(() => {
+    if (!liveResult) return;
+    setResult(liveResult);
+    setIsLiveResult(true);
+  }, [liveResult]);
+
+  // Stop any running analysis when the detector goes away
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
+  // Re-cut in the background whenever the window length or the classifier changes
+  useEffect(() => {
+    if (!analyzed || !timeline) return;
+    if (timeline.windowDuration === timelineWindow && timeline.classifier === classifierSpec) return;
+
+    const controller = new AbortController();
+    analyzeInWorker({
+      samples: analyzed.buffer.getChannelData(0).slice(),
+      sampleRate: analyzed.buffer.sampleRate,
+      speechSegments: analyzed.speechSegments,
+      classifier: classifierSpec,
+      includeResult: false,
+      confidenceFloor,
+      timelineWindow,
+    }, { signal: controller.signal })
+      .then(response => {
+        setTimeline({ windows: response.timeline, windowDuration: timelineWindow, classifier: classifierSpec });
+      })
+      .catch(error => {
+        if (!isAbortError(error)) console.error("Error computing emotion timeline:", error);
+      });
+
+    return () => controller.abort();
+  }, [analyzed, timeline, timelineWindow, classifierSpec, confidenceFloor]);
+
+  const handleImportModel = async (file: File) => {
+    try {
+      await importModel(file);
+      toast.success("Model imported", {
+        description: `${file.name} is now used for emotion detection.`
+      });
+    } catch (error) {
+      console.error("Error importing model:", error);
+      toast.error("Model import failed", {
+        description: error instanceof OnnxModelError ? error.message : "The model could not be loaded."
+      });
+    }
+  };
+
+  const handleRemoveModel = async () => {
+    try {
+      await removeModel();
+    } catch (error) {
+      console.error("Error removing model:", error);
+    }
+  };
 
   const handleDetectEmotion = async () => {
     if (!audioBlob) {
@@ -127,36 +172,96 @@ const EmotionDetector = ({ audioBlob, onEmotionDetected }: EmotionDetectorProps)
       return;
     }
 
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
     setIsDetecting(true);
+    setProgress(null);
     toast.info("Analyzing audio", {
       description: "Detecting emotions in your recording using SER toolkit simulation..."
     });
 
     try {
-      // In a real application, this would call an actual SER toolkit
-      const result = await detectEmotionFromAudio(audioBlob);
-      setDetectedEmotion(result.mood);
-      setConfidence(result.confidence);
-      onEmotionDetected(result.mood);
-      toast.success("Emotion detected", {
-        description: `We detected a ${result.mood} mood in your recording with ${Math.round(result.confidence * 100)}% confidence.`
-      });
+      const audioBuffer = await decodeAudioBlob(audioBlob);
+      const segments = speechSegments ?? [];
+      console.log(`Analyzing audio for emotional content with ${classifier.name}...`);
+
+      // The result depends only on the audio, the classifier (and the demo seed, when one is given)
+      const response = await analyzeInWorker({
+        // A copy, since the worker takes ownership of the samples
+        samples: audioBuffer.getChannelData(0).slice(),
+        sampleRate: audioBuffer.sampleRate,
+        speechSegments: segments,
+        classifier: classifierSpec,
+        includeResult: true,
+        confidenceFloor,
+        timelineWindow,
+      }, { onProgress: setProgress, signal: controller.signal });
+
+      const detected = response.result;
+      setResult(detected);
+      setIsLiveResult(false);
+      setExplanation(response.explanation);
+      setAnalyzed({ buffer: audioBuffer, speechSegments: segments });
+      setTimeline({ windows: response.timeline, windowDuration: timelineWindow, classifier: classifierSpec });
+      onEmotionDetected(detected);
+      if (detected.uncertain) {
+        toast.warning("No clear mood detected", {
+          description: `${UNCERTAIN_MESSAGES[detected.uncertain].title} ${UNCERTAIN_MESSAGES[detected.uncertain].fix}`
+        });
+      } else {
+        toast.success("Emotion detected", {
+          description: `We detected a ${detected.mood} mood in your recording with ${Math.round(detected.confidence * 100)}% confidence.`
+        });
+      }
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error("Error detecting emotion:", error);
       toast.error("Detection failed", {
-        description: "There was an error analyzing your audio. Please try again."
+        description: error instanceof OnnxModelError
+          ? error.message
+          : "There was an error analyzing your audio. Please try again."
       });
     } finally {
-      setIsDetecting(false);
+      if (abortControllerRef.current === controller) {
+        abortControllerRef.current = null;
+        setIsDetecting(false);
+        setProgress(null);
+      }
     }
   };
 
+  const handleCancelDetection = () => {
+    abortControllerRef.current?.abort();
+    toast.info("Detection cancelled");
+  };
+
   return (
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Brain className="h-5 w-5" />
           AI Emotion Detection
+          <div className="ml-auto flex items-center gap-1">
+            <CalibrationDialog
+              profiles={profiles}
+              activeProfile={activeProfile}
+              onSaveProfile={saveProfile}
+              onSelectProfile={selectProfile}
+              onDeleteProfile={deleteProfile}
+              disabled={isDetecting}
+            />
+            <ClassifierSettingsPopover
+              backend={backend}
+              onBackendChange={setBackend}
+              confidenceFloor={confidenceFloor}
+              onConfidenceFloorChange={onConfidenceFloorChange}
+              modelName={onnxClassifier?.name ?? null}
+              isLoadingModel={isLoadingModel}
+              onImportModel={handleImportModel}
+              onRemoveModel={handleRemoveModel}
+              disabled={isDetecting}
+            />
+          </div>
         </CardTitle>
       </CardHeader>
       <CardContent>
@@ -165,30 +270,70 @@ const EmotionDetector = ({ audioBlob, onEmotionDetected }: EmotionDetectorProps)
             <div className="flex flex-col items-center gap-2">
               <Loader2 className="h-8 w-8 animate-spin text-primary" />
               <p className="text-muted-foreground">Analyzing your audio to detect emotions...</p>
+              <Progress value={(progress?.progress ?? 0) * 100} className="h-2 w-full max-w-xs" />
               <p className="text-xs text-muted-foreground/70">
-                Extracting audio features and processing with SER model
+                {progress
+                  ? `${STAGE_LABELS[progress.stage]} • ${Math.round(progress.progress * 100)}%`
+                  : "Decoding audio"}
               </p>
+              <Button variant="outline" size="sm" onClick={handleCancelDetection}>
+                Cancel
+              </Button>
             </div>
           ) : (
             <>
-              <Brain className="h-12 w-12 mx-auto mb-4 text-muted-foreground/70" />
-              {detectedEmotion ? (
+              {result ? (
                 <>
-                  <p className="mb-2 font-medium">Detected mood: {detectedEmotion}</p>
-                  {confidence && (
-                    <div className="w-full bg-secondary/30 h-2 rounded-full mt-2 mb-4">
-                      <div 
-                        className="h-full bg-primary rounded-full" 
-                        style={{ width: `${confidence * 100}%` }}
-                      ></div>
+                  {result.uncertain ? (
+                    <div className="mb-2 space-y-1">
+                      <p className="font-medium flex items-center justify-center gap-2">
+                        <AlertTriangle className="h-4 w-4 text-amber-500" />
+                        No clear mood detected
+                      </p>
+                      <p className="text-sm">{UNCERTAIN_MESSAGES[result.uncertain].title}</p>
+                      <p className="text-xs text-muted-foreground">{UNCERTAIN_MESSAGES[result.uncertain].fix}</p>
+                      <p className="text-xs text-muted-foreground">Best guess: {result.mood}</p>
                     </div>
+                  ) : (
+                    <p className="mb-2 font-medium">Detected mood: {result.mood}</p>
                   )}
+                  {/* Every mood's score, so close calls are visible */}
+                  <MoodScoreChart scores={result.scores} />
                   <p className="text-sm text-muted-foreground">
-                    {confidence && `${Math.round(confidence * 100)}% confidence score`}
+                    {`${Math.round(result.confidence * 100)}% confidence score`}
                   </p>
+                  {isLiveResult && (
+                    <p className="text-xs text-muted-foreground/70 mt-1">
+                      Estimated live while recording. Run detection for the full analysis and timeline.
+                    </p>
+                  )}
+                  {explanation && (
+                    <div className="mt-4 pt-4 border-t">
+                      <EmotionExplanationPanel explanation={explanation} />
+                    </div>
+                  )}
+                  <div className="mt-4 pt-4 border-t">
+                    <p className="text-sm font-medium mb-2 text-left">Valence and arousal</p>
+                    <AffectCircumplex point={result.affect} className="max-w-[220px] mx-auto" />
+                    <p className="text-xs text-muted-foreground mt-2 font-mono">
+                      valence {result.affect.valence.toFixed(2)} • arousal {result.affect.arousal.toFixed(2)}
+                    </p>
+                  </div>
+                  {analyzed && timeline && (
+                    <div className="mt-4 pt-4 border-t">
+                      <p className="text-sm font-medium mb-2 text-left">Emotion over time</p>
+                      <EmotionTimeline
+                        audioBuffer={analyzed.buffer}
+                        timeline={timeline.windows}
+                        windowDuration={timelineWindow}
+                        onWindowDurationChange={setTimelineWindow}
+                      />
+                    </div>
+                  )}
                 </>
               ) : (
                 <>
+                  <Brain className="h-12 w-12 mx-auto mb-4 text-muted-foreground/70" />
                   <p className="mb-2">Let AI analyze your recording</p>
                   <p className="text-sm text-muted-foreground">
                     Our emotion detection simulates a SER toolkit to analyze your voice and sounds
@@ -198,16 +343,37 @@ const EmotionDetector = ({ audioBlob, onEmotionDetected }: EmotionDetectorProps)
             </>
           )}
         </div>
+        {/* Seeded variation only applies to the built-in rules */}
+        {classifier.backend === 'heuristic' && (
+          <div className="flex items-center justify-between gap-4 mt-4">
+            <div className="flex items-center gap-2">
+              <Switch id="emotion-demo-mode" checked={isDemoMode} onCheckedChange={setIsDemoMode} />
+              <Label htmlFor="emotion-demo-mode" className="text-sm">Demo variation</Label>
+            </div>
+            {isDemoMode && (
+              <div className="flex items-center gap-2">
+                <Label htmlFor="emotion-demo-seed" className="text-xs text-muted-foreground">Seed</Label>
+                <Input
+                  id="emotion-demo-seed"
+                  type="number"
+                  value={demoSeed}
+                  onChange={(event) => setDemoSeed(Number(event.target.value) || 0)}
+                  className="h-8 w-24"
+                />
+              </div>
+            )}
+          </div>
+        )}
       </CardContent>
       <CardFooter>
         <Button 
           onClick={handleDetectEmotion} 
           disabled={isDetecting || !audioBlob}
-          variant={detectedEmotion ? "secondary" : "default"}
+          variant={result ? "secondary" : "default"}
           className="w-full gap-2"
         >
           {isDetecting && <Loader2 className="h-4 w-4 animate-spin" />}
-          {detectedEmotion ? "Detect Again" : "Detect Emotion"}
+          {result ? "Detect Again" : "Detect Emotion"}
         </Button>
       </CardFooter>
     </Card>
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import { ChevronDown, HelpCircle } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from '@/components/ui/collapsible';
+import { cn } from '@/lib/utils';
+import { formatMeasure, MEASURE_LABELS, type EmotionExplanation } from '@/lib/emotion/explain';
+import { MOOD_LABELS } from '@/lib/emotion/scores';
+
+type EmotionExplanationPanelProps = {
+  explanation: EmotionExplanation;
+};
+
+const EmotionExplanationPanel = ({ explanation }: EmotionExplanationPanelProps) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const moodLabel = MOOD_LABELS[explanation.mood];
+
+  return (
+    <Collapsible open={isOpen} onOpenChange={setIsOpen} className="text-left">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="w-full justify-between px-2">
+          <span className="flex items-center gap-2">
+            <HelpCircle className="h-4 w-4" />
+            Why {moodLabel}?
+          </span>
+          <ChevronDown className={cn("h-4 w-4 transition-transform", isOpen && "rotate-180")} />
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-3 pt-2">
+        <p className="text-xs text-muted-foreground">
+          {explanation.basis === 'rules'
+            ? `${moodLabel} won over ${MOOD_LABELS[explanation.runnerUp]}. Highlighted measures are the ones the two moods disagree on.`
+            : "An imported model made this decision; its weights can't be shown as thresholds. The built-in rule measures are listed for reference."}
+          {explanation.isCalibrated && " Values are shown after calibration to your voice."}
+        </p>
+
+        {explanation.measures.map(item => (
+          <div
+            key={item.measure}
+            className={cn(
+              "rounded-md border p-2 space-y-1",
+              item.decisive && "border-primary bg-primary/10"
+            )}
+          >
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium">
+                {MEASURE_LABELS[item.measure]}
+                {item.decisive && <span className="ml-2 text-xs text-primary">Decisive</span>}
+              </span>
+              <span className="font-mono text-xs">
+                {formatMeasure(item.measure, item.value)}
+                {explanation.isCalibrated && (
+                  <span className="text-muted-foreground"> (measured {formatMeasure(item.measure, item.rawValue)})</span>
+                )}
+              </span>
+            </div>
+            {/* Membership bar: the midpoint is the threshold */}
+            <div className="relative h-1.5 rounded-full bg-secondary">
+              <div className="absolute inset-y-0 left-0 rounded-full bg-primary/70" style={{ width: `${item.membership * 100}%` }} />
+              <div className="absolute inset-y-[-2px] left-1/2 w-px bg-foreground/60" />
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {item.membership >= 0.5 ? "Above" : "Below"} the threshold of {formatMeasure(item.measure, item.threshold)}
+              {explanation.basis === 'rules' && (item.required
+                ? `; ${moodLabel} needs it ${item.required}, so this ${item.supports ? "supports" : "works against"} it.`
+                : `; ${moodLabel} doesn't depend on it.`)}
+            </p>
+          </div>
+        ))}
+
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs">
+          {explanation.readings.map(reading => (
+            <div key={reading.label} className="flex justify-between gap-2">
+              <span className="text-muted-foreground">{reading.label}</span>
+              <span className="font-mono">{reading.value}</span>
+            </div>
+          ))}
+        </div>
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default EmotionExplanationPanel;
@@ -0,0 +1,147 @@
+import React, { useEffect, useMemo, useRef } from 'react';
+import { FileJson, FileSpreadsheet } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { computePeaks } from '@/lib/audio/edit';
+import { MOOD_COLORS } from '@/lib/emotion/palette';
+import { MOOD_LABELS, MOODS } from '@/lib/emotion/scores';
+import {
+  MAX_TIMELINE_WINDOW,
+  MIN_TIMELINE_WINDOW,
+  timelineToCSV,
+  timelineToJSON,
+  type EmotionWindow,
+} from '@/lib/emotion/timeline';
+
+type EmotionTimelineProps = {
+  audioBuffer: AudioBuffer;
+  timeline: EmotionWindow[];
+  windowDuration: number;
+  onWindowDurationChange: (seconds: number) => void;
+};
+
+// Number of min/max columns drawn across the waveform
+const PEAK_COLUMNS = 300;
+
+const downloadText = (text: string, type: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type }));
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+const EmotionTimeline = ({ audioBuffer, timeline, windowDuration, onWindowDurationChange }: EmotionTimelineProps) => {
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const peaks = useMemo(() => computePeaks(audioBuffer, PEAK_COLUMNS), [audioBuffer]);
+  const duration = audioBuffer.duration;
+
+  // Draw the waveform whenever the peaks or the canvas size change
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+
+    const draw = () => {
+      const ratio = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.scale(ratio, ratio);
+      ctx.clearRect(0, 0, width, height);
+
+      const primary = getComputedStyle(document.documentElement).getPropertyValue('--primary').trim();
+      ctx.fillStyle = primary ? `hsl(${primary})` : '#8b5cf6';
+
+      const columnWidth = width / PEAK_COLUMNS;
+      const middle = height / 2;
+      for (let i = 0; i < PEAK_COLUMNS; i++) {
+        const top = middle - peaks.max[i] * middle;
+        const bottom = middle - peaks.min[i] * middle;
+        ctx.fillRect(i * columnWidth, top, Math.max(1, columnWidth - 0.5), Math.max(1, bottom - top));
+      }
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [peaks]);
+
+  const exportTimeline = (format: 'json' | 'csv') => {
+    const filename = `emotion-timeline-${new Date().toISOString()}.${format}`;
+    if (format === 'json') {
+      downloadText(timelineToJSON(timeline), 'application/json', filename);
+    } else {
+      downloadText(timelineToCSV(timeline), 'text/csv', filename);
+    }
+  };
+
+  return (
+    <div className="space-y-3 text-left">
+      <div className="rounded-md overflow-hidden bg-secondary/20">
+        <canvas ref={canvasRef} className="block h-16 w-full" />
+        {/* One coloured block per analysis window */}
+        <div className="relative h-3">
+          {timeline.map(entry => (
+            <div
+              key={entry.start}
+              className="absolute inset-y-0 border-r border-background"
+              style={{
+                left: `${(entry.start / duration) * 100}%`,
+                width: `${((entry.end - entry.start) / duration) * 100}%`,
+                backgroundColor: entry.mood ? MOOD_COLORS[entry.mood] : undefined,
+                opacity: entry.mood ? 0.4 + entry.confidence * 0.6 : 1,
+              }}
+              title={entry.mood
+                ? `${entry.start.toFixed(1)}–${entry.end.toFixed(1)}s: ${MOOD_LABELS[entry.mood]} (${Math.round(entry.confidence * 100)}%)`
+                : `${entry.start.toFixed(1)}–${entry.end.toFixed(1)}s: no speech`}
+            />
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-x-3 gap-y-1 text-xs text-muted-foreground">
+        {MOODS.map(mood => (
+          <span key={mood} className="flex items-center gap-1">
+            <span className="h-2 w-2 rounded-full" style={{ backgroundColor: MOOD_COLORS[mood] }} />
+            {MOOD_LABELS[mood]}
+          </span>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex justify-between text-xs">
+          <Label>Window length</Label>
+          <span className="font-mono text-muted-foreground">{windowDuration.toFixed(1)}s</span>
+        </div>
+        <Slider
+          value={[windowDuration]}
+          min={MIN_TIMELINE_WINDOW}
+          max={MAX_TIMELINE_WINDOW}
+          step={0.5}
+          onValueChange={([value]) => onWindowDurationChange(value)}
+          aria-label="Timeline window length"
+        />
+      </div>
+
+      <div className="flex gap-2">
+        <Button size="sm" variant="outline" className="flex-1 gap-2" onClick={() => exportTimeline('json')}>
+          <FileJson className="h-4 w-4" />
+          JSON
+        </Button>
+        <Button size="sm" variant="outline" className="flex-1 gap-2" onClick={() => exportTimeline('csv')}>
+          <FileSpreadsheet className="h-4 w-4" />
+          CSV
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default EmotionTimeline;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { METER_FLOOR_DB, type LevelMeterState } from '@/lib/audio/level-meter';
+
+type LevelMeterProps = {
+  levels: LevelMeterState;
+  onResetPeaks: () => void;
+};
+
+// Scale marks shown under the meter
+const SCALE_MARKS = [-60, -48, -36, -24, -12, -6, 0];
+// How long the clip indicator stays lit after the last clipped sample
+const CLIP_INDICATOR_MS = 1000;
+
+const toPercent = (db: number) => ((Math.max(METER_FLOOR_DB, db) - METER_FLOOR_DB) / -METER_FLOOR_DB) * 100;
+
+const LevelMeter = ({ levels, onResetPeaks }: LevelMeterProps) => {
+  const isClipLit = levels.lastClipAt !== null && performance.now() - levels.lastClipAt < CLIP_INDICATOR_MS;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        {/* Meter bar: RMS fill, instantaneous peak and peak hold */}
+        <div className="relative h-3 flex-1 rounded-full overflow-hidden bg-secondary/30">
+          <div
+            className="absolute inset-y-0 left-0 bg-gradient-to-r from-green-500/40 via-yellow-400/40 to-red-500/40"
+            style={{ width: `${toPercent(levels.peakDb)}%` }}
+          />
+          <div
+            className="absolute inset-y-0 left-0 bg-gradient-to-r from-green-500 via-yellow-400 to-red-500"
+            style={{ width: `${toPercent(levels.rmsDb)}%` }}
+          />
+          <div
+            className="absolute inset-y-0 w-0.5 bg-foreground"
+            style={{ left: `${toPercent(levels.peakHoldDb)}%` }}
+          />
+        </div>
+
+        {/* Clip indicator stays latched until clicked */}
+        <button
+          type="button"
+          onClick={onResetPeaks}
+          title="Reset peak hold and clip indicator"
+          className={cn(
+            "h-4 px-1.5 rounded text-[10px] font-bold leading-4 transition-colors",
+            isClipLit
+              ? "bg-red-600 text-white"
+              : levels.lastClipAt !== null
+                ? "bg-red-600/50 text-white"
+                : "bg-secondary/40 text-muted-foreground"
+          )}
+        >
+          CLIP
+        </button>
+      </div>
+
+      <div className="relative h-3 text-[10px] text-muted-foreground font-mono mr-12">
+        {SCALE_MARKS.map(mark => (
+          <span
+            key={mark}
+            className="absolute -translate-x-1/2"
+            style={{ left: `${toPercent(mark)}%` }}
+          >
+            {mark}
+          </span>
+        ))}
+      </div>
+
+      <div className="flex justify-between text-xs text-muted-foreground font-mono">
+        <span>RMS {levels.rmsDb.toFixed(1)} dBFS</span>
+        <span>Peak {levels.peakHoldDb.toFixed(1)} dBFS</span>
+      </div>
+
+      {levels.warning && (
+        <div className="flex items-center gap-2 text-xs text-amber-500">
+          <AlertTriangle className="h-4 w-4" />
+          {levels.warning === 'clipping'
+            ? "Input is clipping. Lower the input gain or move away from the microphone."
+            : "Input is very quiet. Move closer to the microphone or raise the input gain."}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LevelMeter;
@@ -0,0 +1,87 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import {
+  EMOTION_SOURCES,
+  SOURCE_LABELS,
+  type EmotionSource,
+  type FusedEmotion,
+  type FusionWeights,
+  type SourceScores,
+} from '@/lib/emotion/fusion';
+import { MOOD_COLORS } from '@/lib/emotion/palette';
+import { MOOD_LABELS, rankMoods } from '@/lib/emotion/scores';
+
+type MoodFusionPanelProps = {
+  sources: SourceScores;
+  // null until there is voice or text input to fuse
+  fused: FusedEmotion | null;
+  weights: FusionWeights;
+  onWeightChange: (source: EmotionSource, weight: number) => void;
+};
+
+const MoodFusionPanel = ({ sources, fused, weights, onWeightChange }: MoodFusionPanelProps) => {
+  const fusedMood = fused?.result.mood;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <Layers className="h-4 w-4" />
+          Suggestion Sources
+        </CardTitle>
+        <CardDescription>
+          {fused
+            ? `${MOOD_LABELS[fusedMood]} at ${Math.round(fused.result.confidence * 100)}%, combined from the signals below.`
+            : "Analyze your recording or describe your mood to get a suggestion."}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {EMOTION_SOURCES.map(source => {
+          const scores = sources[source];
+          const contribution = fused?.contributions.find(item => item.source === source);
+          return (
+            <div key={source} className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <Label htmlFor={`fusion-weight-${source}`}>{SOURCE_LABELS[source]}</Label>
+                <span className="text-xs text-muted-foreground">
+                  {scores ? MOOD_LABELS[rankMoods(scores)[0].mood] : "No signal"}
+                </span>
+              </div>
+              <Slider
+                id={`fusion-weight-${source}`}
+                min={0}
+                max={1}
+                step={0.05}
+                value={[weights[source]]}
+                onValueChange={([value]) => onWeightChange(source, value)}
+              />
+              {contribution && (
+                <div className="space-y-1">
+                  {/* Bar width is the share of the suggested mood's score this source provided */}
+                  <div className="h-1.5 rounded-full bg-secondary">
+                    <div
+                      className="h-full rounded-full"
+                      style={{
+                        width: `${(contribution.support / fused.result.confidence) * 100}%`,
+                        backgroundColor: MOOD_COLORS[fusedMood],
+                      }}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    {Math.round(contribution.share * 100)}% of the weight, adds
+                    {' '}{Math.round(contribution.support * 100)} points to {MOOD_LABELS[fusedMood]}
+                  </p>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default MoodFusionPanel;
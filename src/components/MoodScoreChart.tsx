@@ -0,0 +1,39 @@
+import React from 'react';
+import { Bar, BarChart, Cell, LabelList, XAxis, YAxis } from 'recharts';
+import { ChartContainer, type ChartConfig } from '@/components/ui/chart';
+import { MOOD_COLORS } from '@/lib/emotion/palette';
+import { MOOD_LABELS, MOODS, rankMoods, type MoodScores } from '@/lib/emotion/scores';
+
+type MoodScoreChartProps = {
+  scores: MoodScores;
+};
+
+const chartConfig = Object.fromEntries(
+  MOODS.map(mood => [mood, { label: MOOD_LABELS[mood], color: MOOD_COLORS[mood] }])
+) satisfies ChartConfig;
+
+// Horizontal bars, highest scoring mood on top
+const MoodScoreChart = ({ scores }: MoodScoreChartProps) => {
+  const data = rankMoods(scores).map(({ mood, score }) => ({
+    mood,
+    label: MOOD_LABELS[mood],
+    percent: Math.round(score * 100),
+  }));
+
+  return (
+    <ChartContainer config={chartConfig} className="aspect-auto h-44 w-full">
+      <BarChart data={data} layout="vertical" margin={{ left: 0, right: 40 }}>
+        <XAxis type="number" domain={[0, 100]} hide />
+        <YAxis type="category" dataKey="label" tickLine={false} axisLine={false} width={72} />
+        <Bar dataKey="percent" radius={4} isAnimationActive={false}>
+          {data.map(entry => (
+            <Cell key={entry.mood} fill={`var(--color-${entry.mood})`} />
+          ))}
+          <LabelList dataKey="percent" position="right" formatter={(value: number) => `${value}%`} className="fill-foreground" />
+        </Bar>
+      </BarChart>
+    </ChartContainer>
+  );
+};
+
+export default MoodScoreChart;
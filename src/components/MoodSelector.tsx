@@ -2,8 +2,12 @@ import React from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
 import { Label } from '@/components/ui/label';
+import { Button } from '@/components/ui/button';
 import { Smile, Music, Frown, Angry, Zap } from 'lucide-react';
 import { cn } from '@/lib/utils';
+import AffectCircumplex from './AffectCircumplex';
+import { affectToScores, type AffectPoint } from '@/lib/emotion/affect';
+import { MOOD_LABELS, rankMoods } from '@/lib/emotion/scores';
 
 export type Mood = 'happy' | 'calm' | 'energetic' | 'sad' | 'angry';
 
@@ -19,9 +23,28 @@ type MoodSelectorProps = {
   selectedMood: Mood | null;
   onMoodSelect: (mood: Mood) => void;
   aiSuggestedMood?: Mood | null;
+  // Runner-up from the detector, shown when the recording was ambiguous
+  aiSecondaryMood?: Mood | null;
+  // A point between moods on the valence/arousal plane
+  affectPoint?: AffectPoint | null;
+  aiAffectPoint?: AffectPoint | null;
+  onAffectSelect?: (point: AffectPoint) => void;
+  onAffectConfirm?: () => void;
 };
 
-const MoodSelector = ({ selectedMood, onMoodSelect, aiSuggestedMood }: MoodSelectorProps) => {
+const MoodSelector = ({
+  selectedMood,
+  onMoodSelect,
+  aiSuggestedMood,
+  aiSecondaryMood,
+  affectPoint,
+  aiAffectPoint,
+  onAffectSelect,
+  onAffectConfirm,
+}: MoodSelectorProps) => {
+  // The two moods the chosen point leans towards most
+  const blend = affectPoint ? rankMoods(affectToScores(affectPoint)).slice(0, 2) : null;
+
   // Define mood options with their properties
   const moods: MoodOption[] = [
     {
@@ -78,6 +101,7 @@ const MoodSelector = ({ selectedMood, onMoodSelect, aiSuggestedMood }: MoodSelec
           {moods.map((mood) => {
             const isSelected = selectedMood === mood.value;
             const isAiSuggested = aiSuggestedMood === mood.value;
+            const isAiSecondary = !isAiSuggested && aiSecondaryMood === mood.value;
             
             return (
               <div key={mood.value} className="relative">
@@ -102,6 +126,11 @@ const MoodSelector = ({ selectedMood, onMoodSelect, aiSuggestedMood }: MoodSelec
                       AI Suggested
                     </div>
                   )}
+                  {isAiSecondary && (
+                    <div className="absolute -top-2 -right-2 bg-secondary text-secondary-foreground border text-xs px-2 py-1 rounded-full">
+                      Also Likely
+                    </div>
+                  )}
                   <mood.icon className={cn(
                     "mb-2 h-8 w-8",
                     isSelected ? "text-primary" : ""
@@ -113,6 +142,32 @@ const MoodSelector = ({ selectedMood, onMoodSelect, aiSuggestedMood }: MoodSelec
             );
           })}
         </RadioGroup>
+
+        {onAffectSelect && (
+          <div className="mt-6 pt-6 border-t grid grid-cols-1 md:grid-cols-2 gap-6 items-center">
+            <AffectCircumplex
+              point={affectPoint}
+              suggestedPoint={aiAffectPoint}
+              onChange={onAffectSelect}
+              className="max-w-[260px] mx-auto"
+            />
+            <div className="space-y-3">
+              <div className="font-medium">Or pick a point between moods</div>
+              <p className="text-sm text-muted-foreground">
+                Left to right goes from unpleasant to pleasant, bottom to top from passive to active.
+                {aiAffectPoint && " The dashed ring marks where your recording landed."}
+              </p>
+              {blend && (
+                <p className="text-sm font-mono">
+                  {blend.map(({ mood, score }) => `${MOOD_LABELS[mood]} ${Math.round(score * 100)}%`).join(' • ')}
+                </p>
+              )}
+              {affectPoint && onAffectConfirm && (
+                <Button onClick={onAffectConfirm}>Use This Blend</Button>
+              )}
+            </div>
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -4,6 +4,10 @@ import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/componen
 import { Loader2, Music, Share, Download, Play, Pause, List } from 'lucide-react';
 import { type Mood } from './MoodSelector';
 import { toast } from 'sonner';
+import { encodeAudioBufferToWAV } from '@/lib/audio/wav';
+import { decodeAudioBlob } from '@/lib/audio/decode';
+import { affectToScores, type AffectPoint } from '@/lib/emotion/affect';
+import { MOODS, type MoodScores } from '@/lib/emotion/scores';
 
 // Custom error types
 class MoodNotFoundException extends Error {
@@ -37,6 +41,8 @@ type VoiceInput = {
 type MoodInput = {
   mood: Mood;
   intensity: number;
+  // Point between moods; when set the processing is blended instead of picked per mood
+  affect: AffectPoint | null;
 };
 
 type GeneratedSong = {
@@ -51,12 +57,77 @@ type GeneratedSong = {
 
 type MusicGeneratorProps = {
   audioBlob?: Blob | null;
+  // Real length of the source audio in seconds, decoded from the blob when unknown
+  audioDuration?: number | null;
   selectedMood: Mood | null;
+  selectedAffect?: AffectPoint | null;
+};
+
+// Processing parameters behind each mood, blended for points between moods.
+// They approximate the dedicated per-mood processing below.
+type MoodParameters = {
+  // Read rate through the source; above 1 speeds up and raises pitch
+  speed: number;
+  gain: number;
+  // Saturation amount, 0 is a soft tanh limit only
+  drive: number;
+  // Level of a fed-back 0.45 s echo
+  echoMix: number;
+  // One-pole low-pass coefficient, 0 is off
+  smoothing: number;
+  // Amplitude pulse depth and pulses per second
+  beatDepth: number;
+  beatRate: number;
+};
+
+const MOOD_PARAMETERS: Record<Mood, MoodParameters> = {
+  happy: { speed: 1.15, gain: 0.8, drive: 0, echoMix: 0, smoothing: 0, beatDepth: 0, beatRate: 2 },
+  calm: { speed: 0.8, gain: 0.5, drive: 0, echoMix: 0.3, smoothing: 0.85, beatDepth: 0, beatRate: 1 },
+  energetic: { speed: 1.2, gain: 1, drive: 0.25, echoMix: 0, smoothing: 0, beatDepth: 0.4, beatRate: 3 },
+  sad: { speed: 0.85, gain: 0.7, drive: 0, echoMix: 0.35, smoothing: 0.3, beatDepth: 0, beatRate: 1 },
+  angry: { speed: 1, gain: 1, drive: 1, echoMix: 0, smoothing: 0, beatDepth: 0.6, beatRate: 2 },
+};
+
+const ECHO_DELAY_SECONDS = 0.45;
+
+const blendMoodParameters = (weights: MoodScores): MoodParameters => {
+  const keys = Object.keys(MOOD_PARAMETERS.happy) as (keyof MoodParameters)[];
+  return Object.fromEntries(keys.map(key => [
+    key,
+    MOODS.reduce((sum, mood) => sum + weights[mood] * MOOD_PARAMETERS[mood][key], 0)
+  ])) as MoodParameters;
+};
+
+const renderBlendedChannel = (
+  inputData: Float32Array,
+  outputData: Float32Array,
+  sampleRate: number,
+  parameters: MoodParameters
+) => {
+  const echoDelay = Math.floor(sampleRate * ECHO_DELAY_SECONDS);
+  const beatPeriod = Math.max(1, Math.floor(sampleRate / parameters.beatRate));
+  let filtered = 0;
+  
+  for (let i = 0; i < outputData.length; i++) {
+    const newIndex = Math.floor(i * parameters.speed) % inputData.length;
+    let sample = Math.tanh(inputData[newIndex] * (1 + parameters.drive));
+    
+    filtered = filtered * parameters.smoothing + sample * (1 - parameters.smoothing);
+    sample = filtered;
+    
+    if (i >= echoDelay) {
+      sample += outputData[i - echoDelay] * parameters.echoMix;
+    }
+    
+    const beat = (i % beatPeriod) < beatPeriod / 4 ? 1 + parameters.beatDepth : 1;
+    outputData[i] = Math.max(-1, Math.min(1, sample * parameters.gain * beat));
+  }
 };
 
 // Simulated music generation using Web Audio API
-const generateMusicFromAudio = async (audioBlob: Blob, mood: Mood): Promise<Blob> => {
-  console.log(`Generating ${mood} music from audio...`);
+const generateMusicFromAudio = async (audioBlob: Blob, mood: Mood, affect: AffectPoint | null = null): Promise<Blob> => {
+  console.log(`Generating ${affect ? 'blended' : mood} music from audio...`);
+  const blendedParameters = affect ? blendMoodParameters(affectToScores(affect)) : null;
   
   const audioContext = new AudioContext();
   const originalBuffer = await audioContext.decodeAudioData(await audioBlob.arrayBuffer());
@@ -73,6 +144,11 @@ const generateMusicFromAudio = async (audioBlob: Blob, mood: Mood): Promise<Blob
     const inputData = originalBuffer.getChannelData(channel);
     const outputData = outputBuffer.getChannelData(channel);
     
+    if (blendedParameters) {
+      renderBlendedChannel(inputData, outputData, sampleRate, blendedParameters);
+      continue;
+    }
+    
     switch (mood) {
       case 'happy':
         // Increase tempo and pitch for happy mood
@@ -211,7 +287,7 @@ const generateMusicFromAudio = async (audioBlob: Blob, mood: Mood): Promise<Blob
   
   const renderedBuffer = await offlineCtx.startRendering();
   
-  const wavEncoder = await encodeWAV(renderedBuffer);
+  const wavEncoder = encodeAudioBufferToWAV(renderedBuffer);
   
   // Reduced simulation delay to improve user experience
   await new Promise(resolve => setTimeout(resolve, 2000));
@@ -219,55 +295,7 @@ const generateMusicFromAudio = async (audioBlob: Blob, mood: Mood): Promise<Blob
   return new Blob([wavEncoder], { type: 'audio/wav' });
 };
 
-const encodeWAV = async (buffer: AudioBuffer): Promise<ArrayBuffer> => {
-  const numOfChan = buffer.numberOfChannels;
-  const length = buffer.length * numOfChan * 2;
-  const sampleRate = buffer.sampleRate;
-  const result = new ArrayBuffer(44 + length);
-  const view = new DataView(result);
-  
-  writeUTFBytes(view, 0, 'RIFF');
-  view.setUint32(4, 36 + length, true);
-  writeUTFBytes(view, 8, 'WAVE');
-  
-  writeUTFBytes(view, 12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true);
-  view.setUint16(22, numOfChan, true);
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * numOfChan * 2, true);
-  view.setUint16(32, numOfChan * 2, true);
-  view.setUint16(34, 16, true);
-  
-  writeUTFBytes(view, 36, 'data');
-  view.setUint32(40, length, true);
-  
-  let offset = 44;
-  const channelData = [];
-  
-  for (let i = 0; i < numOfChan; i++) {
-    channelData.push(buffer.getChannelData(i));
-  }
-  
-  for (let i = 0; i < buffer.length; i++) {
-    for (let channel = 0; channel < numOfChan; channel++) {
-      const sample = Math.max(-1, Math.min(1, channelData[channel][i]));
-      const int16 = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
-      view.setInt16(offset, int16, true);
-      offset += 2;
-    }
-  }
-  
-  return result;
-};
-
-const writeUTFBytes = (view: DataView, offset: number, string: string) => {
-  for (let i = 0; i < string.length; i++) {
-    view.setUint8(offset + i, string.charCodeAt(i));
-  }
-};
-
-const MusicGenerator = ({ audioBlob, selectedMood }: MusicGeneratorProps) => {
+const MusicGenerator = ({ audioBlob, audioDuration, selectedMood, selectedAffect = null }: MusicGeneratorProps) => {
   const [isGenerating, setIsGenerating] = useState(false);
   const [generatedMusicUrl, setGeneratedMusicUrl] = useState<string | null>(null);
   const [originalAudioUrl, setOriginalAudioUrl] = useState<string | null>(null);
@@ -349,18 +377,19 @@ const MusicGenerator = ({ audioBlob, selectedMood }: MusicGeneratorProps) => {
     
     return {
       mood: selectedMood,
-      intensity: 0.8
+      intensity: 0.8,
+      affect: selectedAffect
     };
   };
 
   const processOutput = async (voice: VoiceInput, mood: MoodInput): Promise<GeneratedSong> => {
     try {
-      const generatedMusic = await generateMusicFromAudio(voice.blob, mood.mood);
+      const generatedMusic = await generateMusicFromAudio(voice.blob, mood.mood, mood.affect);
       const musicUrl = URL.createObjectURL(generatedMusic);
       
       const song: GeneratedSong = {
         id: `song-${Date.now().toString(36)}`,
-        title: `${mood.mood} Creation ${new Date().toLocaleTimeString()}`,
+        title: `${mood.affect ? `${mood.mood} blend` : mood.mood} Creation ${new Date().toLocaleTimeString()}`,
         duration: voice.duration,
         moodType: mood.mood,
         blob: generatedMusic,
@@ -416,7 +445,7 @@ const MusicGenerator = ({ audioBlob, selectedMood }: MusicGeneratorProps) => {
       
       const voiceInput: VoiceInput = {
         blob: audioBlob,
-        duration: 30,
+        duration: audioDuration ?? (await decodeAudioBlob(audioBlob)).duration,
         type: audioBlob.type
       };
       
@@ -0,0 +1,115 @@
+import React from 'react';
+import { Download, Play, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { cn } from '@/lib/utils';
+import { type EmotionResult } from '@/lib/emotion/classifier';
+
+export type Take = {
+  id: string;
+  label: string;
+  blob: Blob;
+  url: string;
+  // Seconds
+  duration: number;
+  createdAt: Date;
+  // Distribution from live detection while recording; null for recovered takes
+  emotion: EmotionResult | null;
+};
+
+type TakeListProps = {
+  takes: Take[];
+  selectedTakeIds: string[];
+  previewTakeId: string | null;
+  onToggleSelect: (takeId: string) => void;
+  onRename: (takeId: string, label: string) => void;
+  onPreview: (takeId: string) => void;
+  onDownload: (take: Take) => void;
+  onDelete: (takeId: string) => void;
+};
+
+const formatDuration = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const TakeList = ({
+  takes,
+  selectedTakeIds,
+  previewTakeId,
+  onToggleSelect,
+  onRename,
+  onPreview,
+  onDownload,
+  onDelete,
+}: TakeListProps) => {
+  return (
+    <div className="border rounded-md">
+      <div className="p-3 bg-secondary/10 border-b flex items-center justify-between">
+        <span className="font-medium">Takes</span>
+        <span className="text-xs text-muted-foreground">
+          Tick one take, or several to join them in order
+        </span>
+      </div>
+      <ul className="divide-y max-h-72 overflow-y-auto">
+        {takes.map((take) => (
+          <li
+            key={take.id}
+            className={cn(
+              "p-3 flex items-center gap-3 transition-colors",
+              previewTakeId === take.id ? "bg-primary/10" : "hover:bg-secondary/20"
+            )}
+          >
+            <Checkbox
+              checked={selectedTakeIds.includes(take.id)}
+              onCheckedChange={() => onToggleSelect(take.id)}
+              aria-label={`Use ${take.label}`}
+            />
+            <div className="flex-1 min-w-0">
+              <Input
+                value={take.label}
+                onChange={(event) => onRename(take.id, event.target.value)}
+                className="h-8"
+                aria-label="Take name"
+              />
+              <p className="text-xs text-muted-foreground mt-1">
+                {formatDuration(take.duration)} • {take.createdAt.toLocaleTimeString()}
+              </p>
+            </div>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onPreview(take.id)}
+              className="h-8 w-8 p-0"
+              aria-label={`Play ${take.label}`}
+            >
+              <Play className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onDownload(take)}
+              className="h-8 w-8 p-0"
+              aria-label={`Download ${take.label}`}
+            >
+              <Download className="h-4 w-4" />
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => onDelete(take.id)}
+              className="h-8 w-8 p-0 text-destructive"
+              aria-label={`Delete ${take.label}`}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default TakeList;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { MessageSquareText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import MoodScoreChart from '@/components/MoodScoreChart';
+import { analyzeTextMood, type TextMoodAnalysis } from '@/lib/emotion/text-mood';
+import { MOOD_LABELS, type MoodScores } from '@/lib/emotion/scores';
+
+type TextMoodInputProps = {
+  // Called with null when the text carries no mood, or is edited after an analysis
+  onMoodDetected: (scores: MoodScores | null) => void;
+};
+
+const TextMoodInput = ({ onMoodDetected }: TextMoodInputProps) => {
+  const [text, setText] = useState('');
+  const [analysis, setAnalysis] = useState<TextMoodAnalysis | null>(null);
+
+  const analyzeText = () => {
+    const next = analyzeTextMood(text);
+    setAnalysis(next);
+    onMoodDetected(next.scores);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-base">
+          <MessageSquareText className="h-4 w-4" />
+          Describe Your Mood
+        </CardTitle>
+        <CardDescription>
+          Prefer typing? Tell us how you feel and we'll suggest a mood. Nothing leaves your device.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          value={text}
+          onChange={(event) => {
+            setText(event.target.value);
+            // The analysed text is gone, so its scores no longer count
+            if (analysis?.scores) onMoodDetected(null);
+            setAnalysis(null);
+          }}
+          placeholder="e.g. Really tired today, but not sad, just want something mellow"
+          rows={3}
+        />
+        <Button size="sm" className="w-full" onClick={analyzeText} disabled={!text.trim()}>
+          Analyze Text
+        </Button>
+
+        {analysis && (analysis.scores ? (
+          <div className="space-y-2">
+            <MoodScoreChart scores={analysis.scores} />
+            <div className="flex flex-wrap gap-1">
+              {analysis.matches.map((match, index) => (
+                <span
+                  key={`${match.word}-${index}`}
+                  className="rounded-full bg-secondary px-2 py-0.5 text-xs"
+                  title={match.negated ? "Negated" : undefined}
+                >
+                  {match.negated && "not "}{match.word} → {MOOD_LABELS[match.mood]}
+                </span>
+              ))}
+            </div>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            No mood words recognised. Try describing your feelings more directly, like "calm" or "frustrated".
+          </p>
+        ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TextMoodInput;
@@ -0,0 +1,558 @@
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { AlertCircle, AudioLines, Check, Loader2, Play, Scissors, Square, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Slider } from '@/components/ui/slider';
+import { toast } from 'sonner';
+import { decodeAudioBlob } from '@/lib/audio/decode';
+import {
+  computePeaks,
+  createAudioBufferFromChannels,
+  renderSelection,
+  type AudioSelection,
+} from '@/lib/audio/edit';
+import { createWavBlob, readWavBitDepth } from '@/lib/audio/wav';
+import {
+  computeFrameLevels,
+  computeLevelEnvelope,
+  detectSpeechSegments,
+  findPauses,
+  getSpeechBounds,
+  offsetSegments,
+  DEFAULT_VAD_OPTIONS,
+  type SpeechSegment,
+  type VadOptions,
+} from '@/lib/audio/vad';
+
+type WaveformEditorProps = {
+  audioBlob: Blob;
+  minDuration?: number;
+  // Duration and speech segments describe the committed (trimmed) audio
+  onCommit: (audioBlob: Blob, duration: number, speechSegments: SpeechSegment[]) => void;
+  onCancel: () => void;
+};
+
+type DragTarget = 'start' | 'end' | 'fadeIn' | 'fadeOut';
+
+const PEAK_COLUMNS = 800;
+// Bottom of the level envelope and of the threshold slider, in dBFS
+const LEVEL_FLOOR_DB = -80;
+// Smallest selection the handles can be squeezed to, in seconds
+const MIN_SELECTION = 0.5;
+
+// Format seconds as MM:SS.s
+const formatTime = (seconds: number): string => {
+  const mins = Math.floor(seconds / 60);
+  const secs = seconds - mins * 60;
+  return `${mins.toString().padStart(2, '0')}:${secs.toFixed(1).padStart(4, '0')}`;
+};
+
+const WaveformEditor = ({ audioBlob, minDuration = 0, onCommit, onCancel }: WaveformEditorProps) => {
+  const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
+  // Set when the take can't be decoded; only Cancel is left to the user then
+  const [decodeFailed, setDecodeFailed] = useState(false);
+  const [selection, setSelection] = useState<AudioSelection>({ start: 0, end: 0, fadeIn: 0, fadeOut: 0 });
+  const [isAuditioning, setIsAuditioning] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+  const [vadOptions, setVadOptions] = useState<VadOptions>(DEFAULT_VAD_OPTIONS);
+
+  const canvasRef = useRef<HTMLCanvasElement | null>(null);
+  const containerRef = useRef<HTMLDivElement | null>(null);
+  const dragTargetRef = useRef<DragTarget | null>(null);
+  const audioContextRef = useRef<AudioContext | null>(null);
+  const sourceRef = useRef<AudioBufferSourceNode | null>(null);
+
+  // Decode the take and start with everything selected
+  useEffect(() => {
+    let cancelled = false;
+    setAudioBuffer(null);
+    setDecodeFailed(false);
+
+    decodeAudioBlob(audioBlob)
+      .then(buffer => {
+        if (cancelled) return;
+        setAudioBuffer(buffer);
+        setSelection({ start: 0, end: buffer.duration, fadeIn: 0, fadeOut: 0 });
+      })
+      .catch(error => {
+        console.error("Error decoding audio for editing:", error);
+        if (cancelled) return;
+        setDecodeFailed(true);
+        toast.error("Editor unavailable", {
+          description: "The recording could not be decoded for trimming."
+        });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [audioBlob]);
+
+  // Stop auditioning and release the playback context on unmount
+  useEffect(() => {
+    return () => {
+      sourceRef.current?.stop();
+      audioContextRef.current?.close();
+    };
+  }, []);
+
+  const peaks = useMemo(() => audioBuffer ? computePeaks(audioBuffer, PEAK_COLUMNS) : null, [audioBuffer]);
+
+  // Frame levels only depend on the audio, segmentation re-runs as thresholds change
+  const frameLevels = useMemo(() => {
+    if (!audioBuffer) return null;
+    const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, i) => audioBuffer.getChannelData(i));
+    return computeFrameLevels(channels, audioBuffer.sampleRate);
+  }, [audioBuffer]);
+
+  const levelEnvelope = useMemo(
+    () => frameLevels ? computeLevelEnvelope(frameLevels, PEAK_COLUMNS) : null,
+    [frameLevels]
+  );
+
+  const speechSegments = useMemo(
+    () => frameLevels ? detectSpeechSegments(frameLevels, vadOptions) : [],
+    [frameLevels, vadOptions]
+  );
+  const pauses = useMemo(() => findPauses(speechSegments), [speechSegments]);
+
+  // Draw the waveform whenever the peaks or the canvas size change
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks) return;
+
+    const draw = () => {
+      const ratio = window.devicePixelRatio || 1;
+      const width = canvas.clientWidth;
+      const height = canvas.clientHeight;
+      canvas.width = width * ratio;
+      canvas.height = height * ratio;
+
+      const ctx = canvas.getContext('2d');
+      if (!ctx) return;
+      ctx.scale(ratio, ratio);
+      ctx.clearRect(0, 0, width, height);
+
+      const primary = getComputedStyle(document.documentElement).getPropertyValue('--primary').trim();
+      ctx.fillStyle = primary ? `hsl(${primary})` : '#8b5cf6';
+
+      const columnWidth = width / PEAK_COLUMNS;
+      const middle = height / 2;
+      for (let i = 0; i < PEAK_COLUMNS; i++) {
+        const top = middle - peaks.max[i] * middle;
+        const bottom = middle - peaks.min[i] * middle;
+        ctx.fillRect(i * columnWidth, top, Math.max(1, columnWidth - 0.5), Math.max(1, bottom - top));
+      }
+    };
+
+    draw();
+    const observer = new ResizeObserver(draw);
+    observer.observe(canvas);
+    return () => observer.disconnect();
+  }, [peaks]);
+
+  const duration = audioBuffer?.duration ?? 0;
+  const selectionLength = selection.end - selection.start;
+  const isTooShort = selectionLength < minDuration;
+
+  const toPercent = (seconds: number) => duration ? (seconds / duration) * 100 : 0;
+  // Levels are drawn on a dB scale from LEVEL_FLOOR_DB at the bottom to 0 dBFS at the top
+  const levelToTop = (db: number) => (1 - Math.max(0, Math.min(1, (db - LEVEL_FLOOR_DB) / -LEVEL_FLOOR_DB))) * 100;
+
+  // Convert a pointer position to a time on the waveform
+  const timeFromPointer = (clientX: number): number => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || !rect.width) return 0;
+    const ratio = Math.max(0, Math.min(1, (clientX - rect.left) / rect.width));
+    return ratio * duration;
+  };
+
+  // Keep handles ordered and fades inside the selection
+  const updateSelection = (target: DragTarget, time: number) => {
+    setSelection(prev => {
+      const next = { ...prev };
+
+      if (target === 'start') {
+        next.start = Math.max(0, Math.min(time, prev.end - MIN_SELECTION));
+      } else if (target === 'end') {
+        next.end = Math.min(duration, Math.max(time, prev.start + MIN_SELECTION));
+      } else if (target === 'fadeIn') {
+        next.fadeIn = Math.max(0, Math.min(time - prev.start, prev.end - prev.start - prev.fadeOut));
+      } else {
+        next.fadeOut = Math.max(0, Math.min(prev.end - time, prev.end - prev.start - prev.fadeIn));
+      }
+
+      const length = next.end - next.start;
+      if (next.fadeIn + next.fadeOut > length) {
+        const scale = length / (next.fadeIn + next.fadeOut);
+        next.fadeIn *= scale;
+        next.fadeOut *= scale;
+      }
+
+      return next;
+    });
+  };
+
+  const handlePointerDown = (target: DragTarget) => (event: React.PointerEvent<HTMLDivElement>) => {
+    event.preventDefault();
+    event.stopPropagation();
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragTargetRef.current = target;
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragTargetRef.current) return;
+    updateSelection(dragTargetRef.current, timeFromPointer(event.clientX));
+  };
+
+  const handlePointerUp = () => {
+    dragTargetRef.current = null;
+  };
+
+  // Move the handles to the first and last detected speech
+  const autoTrim = () => {
+    const bounds = getSpeechBounds(speechSegments);
+    if (!bounds) {
+      toast.warning("No speech detected", {
+        description: "Try lowering the silence threshold."
+      });
+      return;
+    }
+
+    setSelection(prev => {
+      const start = bounds.start;
+      const end = Math.max(bounds.end, Math.min(duration, start + MIN_SELECTION));
+      const length = end - start;
+      return {
+        start,
+        end,
+        fadeIn: Math.min(prev.fadeIn, length / 2),
+        fadeOut: Math.min(prev.fadeOut, length / 2),
+      };
+    });
+  };
+
+  const updateVadOption = (key: keyof VadOptions, value: number) => {
+    setVadOptions(prev => ({ ...prev, [key]: value }));
+  };
+
+  const stopAudition = () => {
+    sourceRef.current?.stop();
+    sourceRef.current = null;
+    setIsAuditioning(false);
+  };
+
+  // Play the selection with its fades applied
+  const startAudition = () => {
+    if (!audioBuffer) return;
+
+    if (!audioContextRef.current) {
+      audioContextRef.current = new AudioContext();
+    }
+    const audioContext = audioContextRef.current;
+
+    const source = audioContext.createBufferSource();
+    source.buffer = createAudioBufferFromChannels(renderSelection(audioBuffer, selection), audioBuffer.sampleRate);
+    source.connect(audioContext.destination);
+    source.addEventListener('ended', () => {
+      if (sourceRef.current === source) {
+        sourceRef.current = null;
+        setIsAuditioning(false);
+      }
+    });
+
+    sourceRef.current?.stop();
+    sourceRef.current = source;
+    source.start();
+    setIsAuditioning(true);
+  };
+
+  const handleCommit = async () => {
+    if (!audioBuffer) return;
+
+    if (isTooShort) {
+      toast.warning("Selection is too short", {
+        description: `Please keep at least ${minDuration} seconds of audio.`
+      });
+      return;
+    }
+
+    stopAudition();
+    setIsCommitting(true);
+
+    try {
+      const isUntouched = selection.start === 0 && selection.end === duration &&
+        selection.fadeIn === 0 && selection.fadeOut === 0;
+
+      const committedSegments = offsetSegments(speechSegments, selection.start, selection.end);
+
+      if (isUntouched) {
+        onCommit(audioBlob, duration, committedSegments);
+        return;
+      }
+
+      // A WAV source decodes at its own rate, so the trim keeps its sample rate and bit depth
+      const bitDepth = readWavBitDepth(await audioBlob.arrayBuffer()) ?? 16;
+      const trimmedBlob = createWavBlob(renderSelection(audioBuffer, selection), {
+        sampleRate: audioBuffer.sampleRate,
+        bitDepth
+      });
+
+      toast.success("Recording trimmed", {
+        description: `Kept ${formatTime(selectionLength)} of ${formatTime(duration)}.`
+      });
+      onCommit(trimmedBlob, selectionLength, committedSegments);
+    } catch (error) {
+      console.error("Error trimming recording:", error);
+      toast.error("Trim failed", {
+        description: "There was an error creating the trimmed recording. Please try again."
+      });
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Scissors className="h-5 w-5" />
+          Trim Your Recording
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {decodeFailed ? (
+          <div className="flex flex-col items-center gap-2 p-6 text-center">
+            <AlertCircle className="h-8 w-8 text-destructive" />
+            <p className="text-muted-foreground">
+              This recording could not be decoded, so it can't be trimmed. Cancel and record or import it again.
+            </p>
+          </div>
+        ) : !audioBuffer ? (
+          <div className="flex flex-col items-center gap-2 p-6">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            <p className="text-muted-foreground">Loading waveform...</p>
+          </div>
+        ) : (
+          <>
+            <div
+              ref={containerRef}
+              className="relative h-32 w-full bg-secondary/20 rounded-lg overflow-hidden select-none touch-none"
+              onPointerMove={handlePointerMove}
+              onPointerUp={handlePointerUp}
+              onPointerCancel={handlePointerUp}
+            >
+              <canvas ref={canvasRef} className="absolute inset-0 h-full w-full" />
+
+              {/* Level envelope (dB) and the silence threshold on the same scale */}
+              {levelEnvelope && (
+                <svg className="absolute inset-0 h-full w-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                  <polyline
+                    points={Array.from(levelEnvelope, (db, i) => `${((i + 0.5) / PEAK_COLUMNS) * 100},${levelToTop(db)}`).join(' ')}
+                    fill="none"
+                    stroke="currentColor"
+                    strokeWidth="1"
+                    vectorEffect="non-scaling-stroke"
+                    className="text-amber-500/60"
+                  />
+                </svg>
+              )}
+              <div
+                className="absolute inset-x-0 border-t border-dashed border-amber-400/70 pointer-events-none"
+                style={{ top: `${levelToTop(vadOptions.thresholdDb)}%` }}
+              />
+
+              {/* Detected speech regions */}
+              {speechSegments.map(segment => (
+                <div
+                  key={segment.start}
+                  className="absolute bottom-0 h-1.5 bg-green-500/70 pointer-events-none"
+                  style={{ left: `${toPercent(segment.start)}%`, width: `${toPercent(segment.end - segment.start)}%` }}
+                />
+              ))}
+
+              {/* Dim the parts that will be cut */}
+              <div
+                className="absolute inset-y-0 left-0 bg-background/70"
+                style={{ width: `${toPercent(selection.start)}%` }}
+              />
+              <div
+                className="absolute inset-y-0 right-0 bg-background/70"
+                style={{ width: `${100 - toPercent(selection.end)}%` }}
+              />
+
+              {/* Fade ramps */}
+              <svg className="absolute inset-0 h-full w-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+                <polyline
+                  points={`${toPercent(selection.start)},100 ${toPercent(selection.start + selection.fadeIn)},0 ${toPercent(selection.end - selection.fadeOut)},0 ${toPercent(selection.end)},100`}
+                  fill="none"
+                  stroke="currentColor"
+                  strokeWidth="1"
+                  vectorEffect="non-scaling-stroke"
+                  className="text-accent-foreground/70"
+                />
+              </svg>
+
+              {/* In/out handles */}
+              {(['start', 'end'] as const).map(target => (
+                <div
+                  key={target}
+                  role="slider"
+                  aria-label={target === 'start' ? 'Selection start' : 'Selection end'}
+                  aria-valuenow={selection[target]}
+                  className="absolute inset-y-0 w-3 -ml-1.5 cursor-ew-resize flex justify-center"
+                  style={{ left: `${toPercent(selection[target])}%` }}
+                  onPointerDown={handlePointerDown(target)}
+                >
+                  <div className="h-full w-1 bg-primary rounded-full" />
+                </div>
+              ))}
+
+              {/* Fade handles */}
+              {(['fadeIn', 'fadeOut'] as const).map(target => {
+                const position = target === 'fadeIn'
+                  ? selection.start + selection.fadeIn
+                  : selection.end - selection.fadeOut;
+
+                return (
+                  <div
+                    key={target}
+                    role="slider"
+                    aria-label={target === 'fadeIn' ? 'Fade in' : 'Fade out'}
+                    aria-valuenow={selection[target]}
+                    className="absolute top-1 h-3 w-3 -ml-1.5 rounded-full bg-accent border border-background cursor-ew-resize"
+                    style={{ left: `${toPercent(position)}%` }}
+                    onPointerDown={handlePointerDown(target)}
+                  />
+                );
+              })}
+            </div>
+
+            <div className="flex flex-wrap justify-between gap-2 text-xs text-muted-foreground font-mono">
+              <span>In {formatTime(selection.start)}</span>
+              <span>Fade in {selection.fadeIn.toFixed(1)}s</span>
+              <span className={isTooShort ? 'text-destructive' : ''}>Length {formatTime(selectionLength)}</span>
+              <span>Fade out {selection.fadeOut.toFixed(1)}s</span>
+              <span>Out {formatTime(selection.end)}</span>
+            </div>
+
+            {isTooShort && (
+              <p className="text-xs text-center text-destructive">
+                The selection must be at least {minDuration} seconds long.
+              </p>
+            )}
+
+            {/* Voice activity detection */}
+            <div className="space-y-4 rounded-md border p-4">
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="flex items-center gap-2 font-medium">
+                  <AudioLines className="h-4 w-4" />
+                  Silence Detection
+                </div>
+                <Button variant="secondary" size="sm" onClick={autoTrim} className="gap-2">
+                  <Scissors className="h-4 w-4" />
+                  Auto-trim Silence
+                </Button>
+              </div>
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label className="flex justify-between">
+                    <span>Threshold</span>
+                    <span className="font-mono text-muted-foreground">{vadOptions.thresholdDb} dBFS</span>
+                  </Label>
+                  <Slider
+                    min={LEVEL_FLOOR_DB}
+                    max={-10}
+                    step={1}
+                    value={[vadOptions.thresholdDb]}
+                    onValueChange={([value]) => updateVadOption('thresholdDb', value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="flex justify-between">
+                    <span>Minimum pause</span>
+                    <span className="font-mono text-muted-foreground">{vadOptions.minPause.toFixed(1)}s</span>
+                  </Label>
+                  <Slider
+                    min={0.1}
+                    max={2}
+                    step={0.1}
+                    value={[vadOptions.minPause]}
+                    onValueChange={([value]) => updateVadOption('minPause', value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="flex justify-between">
+                    <span>Minimum speech</span>
+                    <span className="font-mono text-muted-foreground">{vadOptions.minSpeech.toFixed(2)}s</span>
+                  </Label>
+                  <Slider
+                    min={0}
+                    max={1}
+                    step={0.05}
+                    value={[vadOptions.minSpeech]}
+                    onValueChange={([value]) => updateVadOption('minSpeech', value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label className="flex justify-between">
+                    <span>Padding</span>
+                    <span className="font-mono text-muted-foreground">{vadOptions.padding.toFixed(2)}s</span>
+                  </Label>
+                  <Slider
+                    min={0}
+                    max={0.5}
+                    step={0.05}
+                    value={[vadOptions.padding]}
+                    onValueChange={([value]) => updateVadOption('padding', value)}
+                  />
+                </div>
+              </div>
+
+              <div className="text-xs text-muted-foreground">
+                {speechSegments.length} speech {speechSegments.length === 1 ? 'region' : 'regions'}, {pauses.length} internal {pauses.length === 1 ? 'pause' : 'pauses'}
+              </div>
+              {speechSegments.length > 0 && (
+                <ul className="max-h-32 overflow-y-auto divide-y text-xs font-mono">
+                  {speechSegments.map((segment, index) => (
+                    <li key={segment.start} className="flex justify-between py-1">
+                      <span>Region {index + 1}</span>
+                      <span>{formatTime(segment.start)} – {formatTime(segment.end)}</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+          </>
+        )}
+      </CardContent>
+      <CardFooter className="flex flex-wrap gap-2 justify-center">
+        <Button
+          variant="outline"
+          onClick={isAuditioning ? stopAudition : startAudition}
+          disabled={!audioBuffer}
+          className="gap-2"
+        >
+          {isAuditioning ? <Square className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+          {isAuditioning ? "Stop" : "Audition"}
+        </Button>
+        <Button variant="ghost" onClick={onCancel} className="gap-2">
+          <X className="h-4 w-4" />
+          Cancel
+        </Button>
+        <Button
+          onClick={handleCommit}
+          disabled={!audioBuffer || isTooShort || isCommitting}
+          className="gap-2"
+        >
+          {isCommitting ? <Loader2 className="h-4 w-4 animate-spin" /> : <Check className="h-4 w-4" />}
+          Use Selection
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+};
+
+export default WaveformEditor;
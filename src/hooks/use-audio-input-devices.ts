@@ -0,0 +1,29 @@
+import { useCallback, useEffect, useState } from 'react';
+
+// Lists microphones and keeps the list current when devices are plugged in or removed.
+// Labels are empty until microphone permission has been granted, so call
+// `refresh` again after a successful getUserMedia.
+export function useAudioInputDevices() {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+
+    try {
+      const allDevices = await navigator.mediaDevices.enumerateDevices();
+      setDevices(allDevices.filter(device => device.kind === 'audioinput' && device.deviceId));
+    } catch (error) {
+      console.error("Error enumerating audio devices:", error);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (!navigator.mediaDevices) return;
+
+    refresh();
+    navigator.mediaDevices.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return { devices, refresh };
+}
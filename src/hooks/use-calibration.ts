@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  getActiveProfile,
+  loadCalibrationSettings,
+  saveCalibrationSettings,
+  type CalibrationSettings,
+  type FeatureCalibration,
+} from '@/lib/emotion/calibration';
+
+// Calibration profiles and the one applied to detections, kept in localStorage.
+// Saving under an existing profile id re-calibrates that profile.
+export function useCalibration() {
+  const [settings, setSettings] = useState<CalibrationSettings>(loadCalibrationSettings);
+
+  useEffect(() => {
+    saveCalibrationSettings(settings);
+  }, [settings]);
+
+  const saveProfile = useCallback((name: string, calibration: FeatureCalibration, profileId?: string) => {
+    const id = profileId ?? `profile-${Date.now().toString(36)}`;
+    const profile = { id, name, createdAt: Date.now(), calibration };
+    setSettings(prev => ({
+      activeProfileId: id,
+      profiles: prev.profiles.some(item => item.id === id)
+        ? prev.profiles.map(item => item.id === id ? profile : item)
+        : [...prev.profiles, profile],
+    }));
+  }, []);
+
+  const selectProfile = useCallback((profileId: string | null) => {
+    setSettings(prev => ({ ...prev, activeProfileId: profileId }));
+  }, []);
+
+  const deleteProfile = useCallback((profileId: string) => {
+    setSettings(prev => ({
+      activeProfileId: prev.activeProfileId === profileId ? null : prev.activeProfileId,
+      profiles: prev.profiles.filter(item => item.id !== profileId),
+    }));
+  }, []);
+
+  return {
+    profiles: settings.profiles,
+    activeProfile: getActiveProfile(settings),
+    saveProfile,
+    selectProfile,
+    deleteProfile,
+  };
+}
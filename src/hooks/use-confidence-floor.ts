@@ -0,0 +1,14 @@
+import { useEffect, useState } from 'react';
+import { loadClassifierSettings, saveClassifierSettings } from '@/lib/emotion/classifier';
+
+// The confidence floor, shared by the detector and the fused suggestion so
+// both react to a change right away. Kept in the classifier settings.
+export function useConfidenceFloor() {
+  const [confidenceFloor, setConfidenceFloor] = useState(() => loadClassifierSettings().confidenceFloor);
+
+  useEffect(() => {
+    saveClassifierSettings({ ...loadClassifierSettings(), confidenceFloor });
+  }, [confidenceFloor]);
+
+  return { confidenceFloor, setConfidenceFloor };
+}
@@ -0,0 +1,95 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  loadClassifierSettings,
+  saveClassifierSettings,
+  type ClassifierBackend,
+  type EmotionClassifier,
+} from '@/lib/emotion/classifier';
+import { createHeuristicClassifier } from '@/lib/emotion/heuristic';
+import { deleteClassifierModel, loadClassifierModel, saveClassifierModel } from '@/lib/emotion/model-store';
+import { createOnnxClassifier } from '@/lib/emotion/onnx-classifier';
+
+const HEURISTIC_CLASSIFIER = createHeuristicClassifier();
+
+// Raw bytes of the imported model, so a worker can load its own session
+export type OnnxModelFile = {
+  name: string;
+  data: ArrayBuffer;
+};
+
+// The selected classifier backend plus the imported ONNX model, restored on load.
+// Falls back to the heuristic while no model is available.
+// `importModel` rejects with OnnxModelError when the file is not a usable model.
+export function useEmotionClassifier() {
+  const [backend, setBackend] = useState<ClassifierBackend>(() => loadClassifierSettings().backend);
+  const [onnxClassifier, setOnnxClassifier] = useState<EmotionClassifier | null>(null);
+  const [onnxModel, setOnnxModel] = useState<OnnxModelFile | null>(null);
+  const [isLoadingModel, setIsLoadingModel] = useState(false);
+
+  useEffect(() => {
+    saveClassifierSettings({ ...loadClassifierSettings(), backend });
+  }, [backend]);
+
+  useEffect(() => {
+    let isCancelled = false;
+
+    const restoreModel = async () => {
+      const stored = await loadClassifierModel();
+      if (!stored || isCancelled) return;
+
+      setIsLoadingModel(true);
+      try {
+        const classifier = await createOnnxClassifier(stored.data, stored.name);
+        if (!isCancelled) {
+          setOnnxClassifier(classifier);
+          setOnnxModel({ name: stored.name, data: stored.data });
+        }
+      } finally {
+        setIsLoadingModel(false);
+      }
+    };
+
+    restoreModel().catch(error => console.error("Error restoring classifier model:", error));
+    return () => {
+      isCancelled = true;
+    };
+  }, []);
+
+  const importModel = useCallback(async (file: File) => {
+    setIsLoadingModel(true);
+    try {
+      const data = await file.arrayBuffer();
+      const classifier = await createOnnxClassifier(data, file.name);
+      setOnnxClassifier(classifier);
+      setOnnxModel({ name: file.name, data });
+      setBackend('onnx');
+
+      // The model stays usable for this session even if it can't be stored
+      saveClassifierModel(file.name, data).catch(error => {
+        console.error("Error storing classifier model:", error);
+      });
+    } finally {
+      setIsLoadingModel(false);
+    }
+  }, []);
+
+  const removeModel = useCallback(async () => {
+    setOnnxClassifier(null);
+    setOnnxModel(null);
+    setBackend('heuristic');
+    await deleteClassifierModel();
+  }, []);
+
+  const classifier = backend === 'onnx' && onnxClassifier ? onnxClassifier : HEURISTIC_CLASSIFIER;
+
+  return {
+    backend,
+    setBackend,
+    classifier,
+    onnxClassifier,
+    onnxModel,
+    isLoadingModel,
+    importModel,
+    removeModel,
+  };
+}
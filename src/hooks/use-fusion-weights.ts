@@ -0,0 +1,22 @@
+import { useCallback, useEffect, useState } from 'react';
+import {
+  loadFusionSettings,
+  saveFusionSettings,
+  type EmotionSource,
+  type FusionWeights,
+} from '@/lib/emotion/fusion';
+
+// How much each mood signal counts towards the suggestion, kept in localStorage
+export function useFusionWeights() {
+  const [weights, setWeights] = useState<FusionWeights>(() => loadFusionSettings().weights);
+
+  useEffect(() => {
+    saveFusionSettings({ weights });
+  }, [weights]);
+
+  const setWeight = useCallback((source: EmotionSource, weight: number) => {
+    setWeights(prev => ({ ...prev, [source]: weight }));
+  }, []);
+
+  return { weights, setWeight };
+}
@@ -0,0 +1,63 @@
+import { useCallback, useEffect, useState } from 'react';
+import { type Mood } from '@/components/MoodSelector';
+import { type SpeechSegment } from '@/lib/audio/vad';
+import {
+  clearDataset,
+  countDatasetSamples,
+  createDatasetSample,
+  deleteDatasetSample,
+  exportDatasetZip,
+  listDatasetSamples,
+  loadDatasetSettings,
+  putDatasetSample,
+  saveDatasetSettings,
+} from '@/lib/emotion/dataset';
+import { type MoodScores } from '@/lib/emotion/scores';
+
+// The opt-in setting for labeled data collection plus the stored sample count.
+// Writes are ignored while collection is off.
+export function useLabeledDataset() {
+  const [isEnabled, setIsEnabled] = useState(() => loadDatasetSettings().enabled);
+  const [sampleCount, setSampleCount] = useState(0);
+
+  useEffect(() => {
+    saveDatasetSettings({ enabled: isEnabled });
+  }, [isEnabled]);
+
+  const refreshCount = useCallback(() => {
+    countDatasetSamples()
+      .then(setSampleCount)
+      .catch(error => console.error("Error counting dataset samples:", error));
+  }, []);
+
+  useEffect(() => {
+    refreshCount();
+  }, [refreshCount]);
+
+  const saveLabel = useCallback(async (
+    id: string,
+    recording: Blob,
+    speechSegments: SpeechSegment[],
+    predictedScores: MoodScores,
+    label: Mood
+  ) => {
+    if (!isEnabled) return;
+    await putDatasetSample(await createDatasetSample(id, recording, speechSegments, predictedScores, label));
+    refreshCount();
+  }, [isEnabled, refreshCount]);
+
+  const removeSample = useCallback(async (id: string) => {
+    if (!isEnabled) return;
+    await deleteDatasetSample(id);
+    refreshCount();
+  }, [isEnabled, refreshCount]);
+
+  const clear = useCallback(async () => {
+    await clearDataset();
+    refreshCount();
+  }, [refreshCount]);
+
+  const exportZip = useCallback(async () => exportDatasetZip(await listDatasetSamples()), []);
+
+  return { isEnabled, setIsEnabled, sampleCount, saveLabel, removeSample, clear, exportZip };
+}
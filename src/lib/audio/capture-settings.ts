@@ -0,0 +1,77 @@
+import { type WavBitDepth } from './wav';
+
+// 'wav' captures raw PCM through an AudioWorklet, 'compressed' uses MediaRecorder (WebM/Opus or OGG)
+export type CaptureFormat = 'wav' | 'compressed';
+
+// Where audio comes from: the microphone, a shared tab/screen, or both mixed
+export type CaptureSource = 'microphone' | 'display' | 'mixed';
+
+export type CaptureSettings = {
+  source: CaptureSource;
+  // Linear gains applied before the sources are mixed
+  micGain: number;
+  displayGain: number;
+  // null means the browser's default input
+  deviceId: string | null;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  channelCount: 1 | 2;
+  sampleRate: number;
+  format: CaptureFormat;
+  bitDepth: WavBitDepth;
+};
+
+export const SAMPLE_RATE_OPTIONS = [22050, 44100, 48000];
+export const BIT_DEPTH_OPTIONS: WavBitDepth[] = [16, 24, 32];
+
+// Browser DSP stays on by default to match plain getUserMedia({ audio: true })
+export const DEFAULT_CAPTURE_SETTINGS: CaptureSettings = {
+  source: 'microphone',
+  micGain: 1,
+  displayGain: 1,
+  deviceId: null,
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  channelCount: 1,
+  sampleRate: 48000,
+  format: 'wav',
+  bitDepth: 16,
+};
+
+const STORAGE_KEY = 'audio-emotion-scapes:capture-settings';
+
+export const loadCaptureSettings = (): CaptureSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_CAPTURE_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CAPTURE_SETTINGS;
+  } catch (error) {
+    console.error("Error loading capture settings:", error);
+    return DEFAULT_CAPTURE_SETTINGS;
+  }
+};
+
+export const saveCaptureSettings = (settings: CaptureSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving capture settings:", error);
+  }
+};
+
+export const usesMicrophone = (settings: CaptureSettings) => settings.source !== 'display';
+export const usesDisplayAudio = (settings: CaptureSettings) => settings.source !== 'microphone';
+
+// Translate the settings into getUserMedia constraints.
+// `ideal` is used so a device that can't honour a value still opens.
+export const buildAudioConstraints = (settings: CaptureSettings): MediaTrackConstraints => {
+  return {
+    deviceId: settings.deviceId ? { exact: settings.deviceId } : undefined,
+    echoCancellation: settings.echoCancellation,
+    noiseSuppression: settings.noiseSuppression,
+    autoGainControl: settings.autoGainControl,
+    channelCount: { ideal: settings.channelCount },
+    sampleRate: { ideal: settings.sampleRate },
+  };
+};
@@ -0,0 +1,26 @@
+import { decodeAudioBlob } from './decode';
+
+// Record a fixed-length clip from the microphone and return it decoded.
+// The stream is opened for the clip only and released afterwards.
+export const recordAudioClip = async (duration: number, constraints: MediaTrackConstraints | boolean = true): Promise<AudioBuffer> => {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: constraints });
+
+  try {
+    const mediaRecorder = new MediaRecorder(stream);
+    const chunks: Blob[] = [];
+    mediaRecorder.addEventListener('dataavailable', (event) => {
+      if (event.data.size > 0) chunks.push(event.data);
+    });
+
+    const stopped = new Promise<void>(resolve => {
+      mediaRecorder.addEventListener('stop', () => resolve(), { once: true });
+    });
+    mediaRecorder.start();
+    setTimeout(() => mediaRecorder.stop(), duration * 1000);
+    await stopped;
+
+    return await decodeAudioBlob(new Blob(chunks, { type: mediaRecorder.mimeType }));
+  } finally {
+    stream.getTracks().forEach(track => track.stop());
+  }
+};
@@ -0,0 +1,22 @@
+import { createAudioBufferFromChannels } from './edit';
+import { decodeWav, WavDecodeError } from './wav';
+
+// Decode an encoded audio blob (WAV, MP3, OGG, FLAC, WebM...) into PCM.
+// PCM WAV is read directly so it keeps its own sample rate; other formats go
+// through a short-lived context, which resamples them to the device rate.
+export const decodeAudioBlob = async (blob: Blob): Promise<AudioBuffer> => {
+  const arrayBuffer = await blob.arrayBuffer();
+  try {
+    const { channels, sampleRate } = decodeWav(arrayBuffer);
+    return createAudioBufferFromChannels(channels, sampleRate);
+  } catch (error) {
+    if (!(error instanceof WavDecodeError)) throw error;
+  }
+
+  const audioContext = new AudioContext();
+  try {
+    return await audioContext.decodeAudioData(arrayBuffer);
+  } finally {
+    audioContext.close();
+  }
+};
@@ -0,0 +1,40 @@
+// Tab, window or screen audio through the screen sharing picker
+
+export type DisplayCaptureFailure = 'cancelled' | 'no-audio';
+
+export class DisplayCaptureError extends Error {
+  reason: DisplayCaptureFailure;
+
+  constructor(reason: DisplayCaptureFailure) {
+    super(reason === 'cancelled'
+      ? "Screen sharing was cancelled."
+      : "The shared source has no audio. Pick a tab or screen and tick \"Share audio\".");
+    this.name = 'DisplayCaptureError';
+    this.reason = reason;
+  }
+}
+
+export const isDisplayCaptureSupported = (): boolean => {
+  return typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getDisplayMedia;
+};
+
+// Browsers only offer audio alongside video, so the video track is requested
+// too. It is kept alive (stopping it ends the share in some browsers) and
+// stopped together with the audio when the capture is released.
+export const openDisplayAudioStream = async (): Promise<MediaStream> => {
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: true });
+  } catch (error) {
+    if (error instanceof DOMException && error.name === 'NotAllowedError') {
+      throw new DisplayCaptureError('cancelled');
+    }
+    throw error;
+  }
+
+  if (!stream.getAudioTracks().length) {
+    stream.getTracks().forEach(track => track.stop());
+    throw new DisplayCaptureError('no-audio');
+  }
+  return stream;
+};
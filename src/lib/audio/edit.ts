@@ -0,0 +1,93 @@
+// Sample-level editing helpers used by the waveform editor
+
+export type AudioSelection = {
+  // All values in seconds
+  start: number;
+  end: number;
+  fadeIn: number;
+  fadeOut: number;
+};
+
+export type WaveformPeaks = {
+  min: Float32Array;
+  max: Float32Array;
+};
+
+// Reduce the first channel to min/max pairs, one per drawn column
+export const computePeaks = (buffer: AudioBuffer, columns: number): WaveformPeaks => {
+  const data = buffer.getChannelData(0);
+  const samplesPerColumn = Math.max(1, Math.floor(data.length / columns));
+  const min = new Float32Array(columns);
+  const max = new Float32Array(columns);
+
+  for (let column = 0; column < columns; column++) {
+    const from = column * samplesPerColumn;
+    const to = Math.min(data.length, from + samplesPerColumn);
+    let low = 0;
+    let high = 0;
+
+    for (let i = from; i < to; i++) {
+      if (data[i] < low) low = data[i];
+      if (data[i] > high) high = data[i];
+    }
+
+    min[column] = low;
+    max[column] = high;
+  }
+
+  return { min, max };
+};
+
+// Cut the selection out of every channel and apply linear fades
+export const renderSelection = (buffer: AudioBuffer, selection: AudioSelection): Float32Array[] => {
+  const { sampleRate } = buffer;
+  const from = Math.max(0, Math.floor(selection.start * sampleRate));
+  const to = Math.min(buffer.length, Math.floor(selection.end * sampleRate));
+  const fadeInSamples = Math.floor(selection.fadeIn * sampleRate);
+  const fadeOutSamples = Math.floor(selection.fadeOut * sampleRate);
+  const length = Math.max(0, to - from);
+
+  const channels: Float32Array[] = [];
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const output = buffer.getChannelData(channel).slice(from, to);
+
+    for (let i = 0; i < fadeInSamples && i < length; i++) {
+      output[i] *= i / fadeInSamples;
+    }
+    for (let i = 0; i < fadeOutSamples && i < length; i++) {
+      output[length - 1 - i] *= i / fadeOutSamples;
+    }
+
+    channels.push(output);
+  }
+
+  return channels;
+};
+
+export const createAudioBufferFromChannels = (channels: Float32Array[], sampleRate: number): AudioBuffer => {
+  const buffer = new AudioBuffer({
+    numberOfChannels: channels.length,
+    length: Math.max(1, channels[0]?.length ?? 0),
+    sampleRate,
+  });
+  channels.forEach((data, channel) => buffer.copyToChannel(data, channel));
+  return buffer;
+};
+
+// Join buffers end to end. Buffers must share a sample rate; mono takes are
+// spread to every channel.
+export const concatenateAudioBuffers = (buffers: AudioBuffer[]): Float32Array[] => {
+  const channelCount = Math.max(1, ...buffers.map(buffer => buffer.numberOfChannels));
+  const length = buffers.reduce((total, buffer) => total + buffer.length, 0);
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(length));
+
+  let offset = 0;
+  for (const buffer of buffers) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      channels[channel].set(buffer.getChannelData(Math.min(channel, buffer.numberOfChannels - 1)), offset);
+    }
+    offset += buffer.length;
+  }
+
+  return channels;
+};
@@ -0,0 +1,377 @@
+// Frame-based acoustic features for emotion classification.
+// Every frame is Hann-windowed and transformed once; spectral shape, MFCCs and
+// pitch are all read from that transform.
+
+import { fft, hannWindow, nextPowerOfTwo } from './fft';
+
+export type ContourStats = {
+  mean: number;
+  std: number;
+  min: number;
+  max: number;
+};
+
+export type AudioFeatures = {
+  // Seconds of audio analysed
+  duration: number;
+  sampleRate: number;
+  // Seconds between the starts of consecutive frames (contour resolution)
+  frameDuration: number;
+  // Frame RMS (linear, 0-1) over time
+  rmsContour: Float32Array;
+  rms: ContourStats;
+  // Share of sign changes between consecutive samples (0-1)
+  zeroCrossingRate: ContourStats;
+  // Hz
+  spectralCentroid: ContourStats;
+  // Hz below which 85% of the spectral energy lies
+  spectralRolloff: ContourStats;
+  // Change of the normalised spectrum between frames
+  spectralFlux: ContourStats;
+  // Share of spectral energy above HIGH_BAND_HZ (0-1)
+  highFrequencyRatio: number;
+  // Mean of each coefficient over active frames, c0 first
+  mfcc: number[];
+  // F0 in Hz per frame, 0 where the frame is unvoiced
+  pitchContour: Float32Array;
+  // Over voiced frames only
+  pitch: ContourStats;
+  // Share of active frames that are voiced (0-1)
+  voicedRatio: number;
+  // Syllable-like loudness onsets per second, a proxy for speaking tempo
+  onsetRate: number;
+};
+
+const FRAME_DURATION = 0.04;
+const ROLLOFF_SHARE = 0.85;
+const HIGH_BAND_HZ = 1000;
+const MEL_FILTER_COUNT = 26;
+const MEL_MAX_HZ = 8000;
+export const MFCC_COUNT = 13;
+// Typical speaking F0 range, from low male voices to high-pitched children
+const MIN_F0 = 70;
+const MAX_F0 = 500;
+// Frames quieter than this (-60 dBFS) are silence and skipped for spectral features
+const SILENCE_RMS = 0.001;
+// Pitch is only tracked on frames louder than -50 dBFS
+const VOICING_RMS = 0.003;
+// Normalised autocorrelation peak required to call a frame voiced
+const VOICING_THRESHOLD = 0.45;
+// An onset is a rise of this many dB from the last dip; the level must fall
+// as far again from its peak before the next onset can count
+const ONSET_RISE_DB = 6;
+
+// Names of the entries returned by toFeatureVector, in order
+export const FEATURE_NAMES = [
+  'rmsMean',
+  'rmsStd',
+  'zcrMean',
+  'centroidMean',
+  'centroidStd',
+  'rolloffMean',
+  'fluxMean',
+  'highFrequencyRatio',
+  'pitchMean',
+  'pitchStd',
+  'pitchRange',
+  'voicedRatio',
+  ...Array.from({ length: MFCC_COUNT }, (_, index) => `mfcc${index}`),
+  // Appended last so vectors stored before it was added keep their indices
+  'onsetRate',
+];
+
+const summarize = (values: ArrayLike<number>): ContourStats => {
+  if (!values.length) {
+    return { mean: 0, std: 0, min: 0, max: 0 };
+  }
+
+  let sum = 0;
+  let min = Infinity;
+  let max = -Infinity;
+  for (let i = 0; i < values.length; i++) {
+    sum += values[i];
+    if (values[i] < min) min = values[i];
+    if (values[i] > max) max = values[i];
+  }
+  const mean = sum / values.length;
+
+  let variance = 0;
+  for (let i = 0; i < values.length; i++) {
+    variance += (values[i] - mean) ** 2;
+  }
+
+  return { mean, std: Math.sqrt(variance / values.length), min, max };
+};
+
+const hzToMel = (hz: number) => 2595 * Math.log10(1 + hz / 700);
+const melToHz = (mel: number) => 700 * (10 ** (mel / 2595) - 1);
+
+// Triangular filters evenly spaced on the mel scale, as weights per FFT bin
+const createMelFilterbank = (frameSize: number, sampleRate: number): Float32Array[] => {
+  const binCount = frameSize / 2 + 1;
+  const maxMel = hzToMel(Math.min(MEL_MAX_HZ, sampleRate / 2));
+  const edges = Array.from({ length: MEL_FILTER_COUNT + 2 }, (_, index) =>
+    (melToHz((maxMel * index) / (MEL_FILTER_COUNT + 1)) * frameSize) / sampleRate
+  );
+
+  return Array.from({ length: MEL_FILTER_COUNT }, (_, filter) => {
+    const [low, center, high] = [edges[filter], edges[filter + 1], edges[filter + 2]];
+    const weights = new Float32Array(binCount);
+    for (let bin = Math.ceil(low); bin <= Math.min(binCount - 1, Math.floor(high)); bin++) {
+      weights[bin] = bin <= center
+        ? (bin - low) / Math.max(1e-6, center - low)
+        : (high - bin) / Math.max(1e-6, high - center);
+    }
+    return weights;
+  });
+};
+
+// DCT-II of the log mel energies
+const computeCepstrum = (logEnergies: Float32Array): number[] => {
+  const count = logEnergies.length;
+  return Array.from({ length: MFCC_COUNT }, (_, coefficient) => {
+    let sum = 0;
+    for (let i = 0; i < count; i++) {
+      sum += logEnergies[i] * Math.cos((Math.PI * coefficient * (i + 0.5)) / count);
+    }
+    return sum;
+  });
+};
+
+// Autocorrelation pitch estimate for one frame, 0 when no clear period is found.
+// The autocorrelation is taken through the FFT of the zero-padded frame.
+const estimatePitch = (frame: Float32Array, sampleRate: number, real: Float32Array, imag: Float32Array): number => {
+  const size = frame.length;
+  real.fill(0);
+  imag.fill(0);
+
+  let mean = 0;
+  for (let i = 0; i < size; i++) mean += frame[i];
+  mean /= size;
+  for (let i = 0; i < size; i++) real[i] = frame[i] - mean;
+
+  fft(real, imag);
+  for (let i = 0; i < real.length; i++) {
+    real[i] = real[i] * real[i] + imag[i] * imag[i];
+    imag[i] = 0;
+  }
+  fft(real, imag, true);
+
+  const energy = real[0];
+  if (energy <= 0) return 0;
+
+  const minLag = Math.floor(sampleRate / MAX_F0);
+  const maxLag = Math.min(size - 1, Math.ceil(sampleRate / MIN_F0));
+  // Unbiased, normalised correlation so long lags aren't penalised by the shrinking overlap
+  const correlation = (lag: number) => (real[lag] / energy) * (size / (size - lag));
+
+  let best = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    best = Math.max(best, correlation(lag));
+  }
+  if (best < VOICING_THRESHOLD) return 0;
+
+  // The first peak close to the best one avoids picking a multiple of the period
+  for (let lag = minLag + 1; lag < maxLag; lag++) {
+    const value = correlation(lag);
+    if (value >= best * 0.9 && value >= correlation(lag - 1) && value >= correlation(lag + 1)) {
+      const previous = correlation(lag - 1);
+      const next = correlation(lag + 1);
+      const curvature = previous - 2 * value + next;
+      const shift = curvature !== 0 ? (0.5 * (previous - next)) / curvature : 0;
+      return sampleRate / (lag + shift);
+    }
+  }
+  return 0;
+};
+
+// Count rises of the frame level with hysteresis, so each syllable's swell
+// counts once and small wobbles within it don't count at all
+const countOnsets = (rmsContour: Float32Array): number => {
+  let onsets = 0;
+  let isRising = true;
+  let extreme = Infinity;
+
+  for (const rms of rmsContour) {
+    const db = 20 * Math.log10(Math.max(rms, SILENCE_RMS));
+    if (isRising) {
+      extreme = Math.min(extreme, db);
+      if (db - extreme >= ONSET_RISE_DB) {
+        onsets++;
+        isRising = false;
+        extreme = db;
+      }
+    } else {
+      extreme = Math.max(extreme, db);
+      if (extreme - db >= ONSET_RISE_DB) {
+        isRising = true;
+        extreme = db;
+      }
+    }
+  }
+
+  return onsets;
+};
+
+// How many frames pass between two progress reports
+const PROGRESS_INTERVAL_FRAMES = 64;
+
+// Extract the feature set from mono samples.
+// `onProgress` receives the share of frames processed so far (0-1).
+export const extractAudioFeatures = (
+  samples: Float32Array,
+  sampleRate: number,
+  onProgress?: (fraction: number) => void
+): AudioFeatures => {
+  const frameSize = nextPowerOfTwo(Math.round(FRAME_DURATION * sampleRate));
+  const hopSize = frameSize / 2;
+  const binCount = frameSize / 2 + 1;
+  const binHz = sampleRate / frameSize;
+  const frameCount = samples.length >= frameSize
+    ? Math.floor((samples.length - frameSize) / hopSize) + 1
+    : samples.length > 0 ? 1 : 0;
+
+  const window = hannWindow(frameSize);
+  const melFilters = createMelFilterbank(frameSize, sampleRate);
+  const frame = new Float32Array(frameSize);
+  const real = new Float32Array(frameSize);
+  const imag = new Float32Array(frameSize);
+  const pitchReal = new Float32Array(frameSize * 2);
+  const pitchImag = new Float32Array(frameSize * 2);
+  const power = new Float32Array(binCount);
+  const logMel = new Float32Array(MEL_FILTER_COUNT);
+  let previousSpectrum: Float32Array | null = null;
+
+  const rmsContour = new Float32Array(frameCount);
+  const pitchContour = new Float32Array(frameCount);
+  const zeroCrossings: number[] = [];
+  const centroids: number[] = [];
+  const rolloffs: number[] = [];
+  const fluxes: number[] = [];
+  const voicedPitches: number[] = [];
+  const mfccSums = new Array<number>(MFCC_COUNT).fill(0);
+  let activeFrames = 0;
+  let highBandEnergy = 0;
+  let totalBandEnergy = 0;
+
+  for (let index = 0; index < frameCount; index++) {
+    if (onProgress && index % PROGRESS_INTERVAL_FRAMES === 0) {
+      onProgress(index / frameCount);
+    }
+
+    const offset = index * hopSize;
+    frame.fill(0);
+    frame.set(samples.subarray(offset, Math.min(samples.length, offset + frameSize)));
+
+    let sumSquares = 0;
+    let crossings = 0;
+    for (let i = 0; i < frameSize; i++) {
+      sumSquares += frame[i] * frame[i];
+      if (i > 0 && (frame[i] >= 0) !== (frame[i - 1] >= 0)) crossings++;
+    }
+    const rms = Math.sqrt(sumSquares / frameSize);
+    rmsContour[index] = rms;
+    if (rms < SILENCE_RMS) continue;
+
+    activeFrames++;
+    zeroCrossings.push(crossings / (frameSize - 1));
+
+    for (let i = 0; i < frameSize; i++) {
+      real[i] = frame[i] * window[i];
+      imag[i] = 0;
+    }
+    fft(real, imag);
+
+    let spectrumTotal = 0;
+    let weightedSum = 0;
+    const magnitude = new Float32Array(binCount);
+    for (let bin = 0; bin < binCount; bin++) {
+      power[bin] = real[bin] * real[bin] + imag[bin] * imag[bin];
+      magnitude[bin] = Math.sqrt(power[bin]);
+      spectrumTotal += magnitude[bin];
+      weightedSum += magnitude[bin] * bin * binHz;
+
+      totalBandEnergy += power[bin];
+      if (bin * binHz >= HIGH_BAND_HZ) highBandEnergy += power[bin];
+    }
+    centroids.push(spectrumTotal > 0 ? weightedSum / spectrumTotal : 0);
+
+    let powerTotal = 0;
+    for (let bin = 0; bin < binCount; bin++) powerTotal += power[bin];
+    let cumulative = 0;
+    let rolloffBin = binCount - 1;
+    for (let bin = 0; bin < binCount; bin++) {
+      cumulative += power[bin];
+      if (cumulative >= ROLLOFF_SHARE * powerTotal) {
+        rolloffBin = bin;
+        break;
+      }
+    }
+    rolloffs.push(rolloffBin * binHz);
+
+    // Flux compares spectra normalised to unit sum so loudness changes don't dominate
+    if (spectrumTotal > 0) {
+      for (let bin = 0; bin < binCount; bin++) magnitude[bin] /= spectrumTotal;
+      if (previousSpectrum) {
+        let flux = 0;
+        for (let bin = 0; bin < binCount; bin++) {
+          const rise = magnitude[bin] - previousSpectrum[bin];
+          if (rise > 0) flux += rise * rise;
+        }
+        fluxes.push(Math.sqrt(flux));
+      }
+      previousSpectrum = magnitude;
+    }
+
+    melFilters.forEach((weights, filter) => {
+      let energy = 0;
+      for (let bin = 0; bin < binCount; bin++) energy += weights[bin] * power[bin];
+      logMel[filter] = Math.log(energy + 1e-10);
+    });
+    computeCepstrum(logMel).forEach((value, coefficient) => {
+      mfccSums[coefficient] += value;
+    });
+
+    if (rms >= VOICING_RMS) {
+      const f0 = estimatePitch(frame, sampleRate, pitchReal, pitchImag);
+      pitchContour[index] = f0;
+      if (f0 > 0) voicedPitches.push(f0);
+    }
+  }
+
+  return {
+    duration: samples.length / sampleRate,
+    sampleRate,
+    frameDuration: hopSize / sampleRate,
+    rmsContour,
+    rms: summarize(rmsContour),
+    zeroCrossingRate: summarize(zeroCrossings),
+    spectralCentroid: summarize(centroids),
+    spectralRolloff: summarize(rolloffs),
+    spectralFlux: summarize(fluxes),
+    highFrequencyRatio: totalBandEnergy > 0 ? highBandEnergy / totalBandEnergy : 0,
+    mfcc: mfccSums.map(sum => (activeFrames ? sum / activeFrames : 0)),
+    pitchContour,
+    pitch: summarize(voicedPitches),
+    voicedRatio: activeFrames ? voicedPitches.length / activeFrames : 0,
+    onsetRate: samples.length ? countOnsets(rmsContour) / (samples.length / sampleRate) : 0,
+  };
+};
+
+// Flatten the summary statistics into a fixed-order vector (see FEATURE_NAMES)
+export const toFeatureVector = (features: AudioFeatures): number[] => [
+  features.rms.mean,
+  features.rms.std,
+  features.zeroCrossingRate.mean,
+  features.spectralCentroid.mean,
+  features.spectralCentroid.std,
+  features.spectralRolloff.mean,
+  features.spectralFlux.mean,
+  features.highFrequencyRatio,
+  features.pitch.mean,
+  features.pitch.std,
+  features.pitch.max - features.pitch.min,
+  features.voicedRatio,
+  ...features.mfcc,
+  features.onsetRate,
+];
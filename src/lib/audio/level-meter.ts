@@ -0,0 +1,106 @@
+// Peak/RMS metering in dBFS with peak hold, clip latching and sustained
+// gain-staging warnings. `updateLevelMeter` is a pure step function that the
+// recorder calls once per animation frame.
+
+export type LevelWarning = 'too-quiet' | 'clipping' | null;
+
+export type LevelMeterState = {
+  peakDb: number;
+  rmsDb: number;
+  peakHoldDb: number;
+  peakHoldAt: number;
+  // Time of the last clipped sample, or null if none since reset
+  lastClipAt: number | null;
+  // Recent clip times used to decide if clipping is sustained
+  clipTimes: number[];
+  // Since when the input has stayed below the quiet threshold
+  quietSince: number | null;
+  warning: LevelWarning;
+};
+
+export const METER_FLOOR_DB = -60;
+// Samples at or above this magnitude count as clipped
+const CLIP_LEVEL = 0.999;
+const PEAK_HOLD_MS = 1500;
+// Peak hold falls back at this rate once the hold time is over
+const PEAK_DECAY_DB_PER_SECOND = 20;
+// Peaks staying under this level for QUIET_WINDOW_MS trigger the too-quiet warning
+const QUIET_THRESHOLD_DB = -35;
+const QUIET_WINDOW_MS = 3000;
+// This many clipped frames within CLIP_WINDOW_MS trigger the clipping warning
+const CLIP_COUNT = 3;
+const CLIP_WINDOW_MS = 2000;
+
+export const toDb = (value: number): number => {
+  return Math.max(METER_FLOOR_DB, 20 * Math.log10(value + 1e-10));
+};
+
+export const createLevelMeterState = (): LevelMeterState => ({
+  peakDb: METER_FLOOR_DB,
+  rmsDb: METER_FLOOR_DB,
+  peakHoldDb: METER_FLOOR_DB,
+  peakHoldAt: 0,
+  lastClipAt: null,
+  clipTimes: [],
+  quietSince: null,
+  warning: null,
+});
+
+export const updateLevelMeter = (state: LevelMeterState, samples: Float32Array, now: number): LevelMeterState => {
+  let peak = 0;
+  let sum = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const magnitude = Math.abs(samples[i]);
+    if (magnitude > peak) peak = magnitude;
+    sum += samples[i] * samples[i];
+  }
+
+  const peakDb = toDb(peak);
+  const rmsDb = toDb(Math.sqrt(sum / Math.max(1, samples.length)));
+  const isClipped = peak >= CLIP_LEVEL;
+
+  // Hold the highest peak, then let it fall back slowly
+  let peakHoldDb = state.peakHoldDb;
+  let peakHoldAt = state.peakHoldAt;
+  if (peakDb >= peakHoldDb) {
+    peakHoldDb = peakDb;
+    peakHoldAt = now;
+  } else if (now - peakHoldAt > PEAK_HOLD_MS) {
+    const elapsed = (now - peakHoldAt - PEAK_HOLD_MS) / 1000;
+    peakHoldDb = Math.max(peakDb, state.peakHoldDb - PEAK_DECAY_DB_PER_SECOND * elapsed);
+    peakHoldAt = now - PEAK_HOLD_MS;
+  }
+
+  const clipTimes = state.clipTimes.filter(time => now - time < CLIP_WINDOW_MS);
+  if (isClipped) {
+    clipTimes.push(now);
+  }
+
+  const quietSince = peakDb < QUIET_THRESHOLD_DB ? (state.quietSince ?? now) : null;
+
+  let warning: LevelWarning = null;
+  if (clipTimes.length >= CLIP_COUNT) {
+    warning = 'clipping';
+  } else if (quietSince !== null && now - quietSince >= QUIET_WINDOW_MS) {
+    warning = 'too-quiet';
+  }
+
+  return {
+    peakDb,
+    rmsDb,
+    peakHoldDb,
+    peakHoldAt,
+    lastClipAt: isClipped ? now : state.lastClipAt,
+    clipTimes,
+    quietSince,
+    warning,
+  };
+};
+
+// Clear the latched clip indicator and peak hold
+export const resetLevelMeterPeaks = (state: LevelMeterState): LevelMeterState => ({
+  ...state,
+  peakHoldDb: state.peakDb,
+  lastClipAt: null,
+  clipTimes: [],
+});
@@ -0,0 +1,199 @@
+import { createWavBlob, type WavBitDepth } from './wav';
+
+// Raw PCM capture through an AudioWorklet.
+// MediaRecorder only produces compressed containers (WebM/Opus, OGG), so this
+// taps the audio graph directly and writes a real WAV file on stop.
+
+export type PcmRecorderState = 'inactive' | 'recording' | 'paused';
+
+export type PcmRecorderOptions = {
+  channelCount?: number;
+  bitDepth?: WavBitDepth;
+  // Frames buffered inside the worklet before posting to the main thread
+  blockSize?: number;
+  // Called with every block as it arrives, e.g. to persist it
+  onData?: (channels: Float32Array[]) => void;
+};
+
+export type PcmRecorder = {
+  readonly sampleRate: number;
+  readonly channelCount: number;
+  getState: () => PcmRecorderState;
+  // Frames received from the worklet so far
+  getRecordedFrames: () => number;
+  start: () => void;
+  pause: () => void;
+  resume: () => void;
+  stop: () => Promise<Blob>;
+};
+
+const PROCESSOR_NAME = 'pcm-recorder-processor';
+
+// Kept as a string so the worklet can be loaded from a Blob URL without a
+// separate bundler entry point.
+const PROCESSOR_SOURCE = `
+class PcmRecorderProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.recording = false;
+    this.active = true;
+    this.channelCount = options.processorOptions.channelCount;
+    this.blockSize = options.processorOptions.blockSize;
+    this.allocate();
+
+    this.port.onmessage = (event) => {
+      const { command } = event.data;
+      if (command === 'start' || command === 'resume') {
+        this.recording = true;
+      } else if (command === 'pause') {
+        this.recording = false;
+      } else if (command === 'stop') {
+        this.recording = false;
+        this.flush();
+        this.active = false;
+        this.port.postMessage({ type: 'done' });
+      }
+    };
+  }
+
+  allocate() {
+    this.buffers = [];
+    for (let c = 0; c < this.channelCount; c++) {
+      this.buffers.push(new Float32Array(this.blockSize));
+    }
+    this.filled = 0;
+  }
+
+  flush() {
+    if (!this.filled) return;
+    const channels = this.buffers.map((buffer) => buffer.slice(0, this.filled));
+    this.port.postMessage({ type: 'data', channels }, channels.map((channel) => channel.buffer));
+    this.allocate();
+  }
+
+  process(inputs) {
+    const input = inputs[0];
+    if (this.recording && input && input.length) {
+      const frames = input[0].length;
+      if (this.filled + frames > this.blockSize) {
+        this.flush();
+      }
+      for (let c = 0; c < this.channelCount; c++) {
+        const source = input[Math.min(c, input.length - 1)];
+        this.buffers[c].set(source, this.filled);
+      }
+      this.filled += frames;
+    }
+    return this.active;
+  }
+}
+
+registerProcessor('${PROCESSOR_NAME}', PcmRecorderProcessor);
+`;
+
+const registeredContexts = new WeakSet<BaseAudioContext>();
+
+const ensureProcessorModule = async (context: BaseAudioContext) => {
+  if (registeredContexts.has(context)) return;
+
+  const moduleUrl = URL.createObjectURL(
+    new Blob([PROCESSOR_SOURCE], { type: 'application/javascript' })
+  );
+  try {
+    await context.audioWorklet.addModule(moduleUrl);
+    registeredContexts.add(context);
+  } finally {
+    URL.revokeObjectURL(moduleUrl);
+  }
+};
+
+// Join the posted blocks into one contiguous buffer per channel
+export const concatenatePcmBlocks = (blocks: Float32Array[][], channelCount: number): Float32Array[] => {
+  const frameCount = blocks.reduce((total, block) => total + block[0].length, 0);
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+
+  let offset = 0;
+  for (const block of blocks) {
+    for (let c = 0; c < channelCount; c++) {
+      channels[c].set(block[c], offset);
+    }
+    offset += block[0].length;
+  }
+
+  return channels;
+};
+
+export const isPcmRecordingSupported = (): boolean => {
+  return typeof AudioWorkletNode !== 'undefined';
+};
+
+export const createPcmRecorder = async (
+  context: AudioContext,
+  source: AudioNode,
+  { channelCount = 1, bitDepth = 16, blockSize = 4096, onData }: PcmRecorderOptions = {}
+): Promise<PcmRecorder> => {
+  await ensureProcessorModule(context);
+
+  const node = new AudioWorkletNode(context, PROCESSOR_NAME, {
+    numberOfInputs: 1,
+    numberOfOutputs: 1,
+    channelCount,
+    channelCountMode: 'explicit',
+    channelInterpretation: 'speakers',
+    processorOptions: { channelCount, blockSize },
+  });
+
+  const blocks: Float32Array[][] = [];
+  let recordedFrames = 0;
+  let state: PcmRecorderState = 'inactive';
+  let resolveDone: (() => void) | null = null;
+
+  node.port.onmessage = (event: MessageEvent<{ type: 'data' | 'done'; channels?: Float32Array[] }>) => {
+    if (event.data.type === 'data' && event.data.channels) {
+      blocks.push(event.data.channels);
+      recordedFrames += event.data.channels[0].length;
+      onData?.(event.data.channels);
+    } else if (event.data.type === 'done' && resolveDone) {
+      resolveDone();
+    }
+  };
+
+  // The node only outputs silence, but it has to be pulled by the destination to keep processing
+  source.connect(node);
+  node.connect(context.destination);
+
+  return {
+    sampleRate: context.sampleRate,
+    channelCount,
+    getState: () => state,
+    getRecordedFrames: () => recordedFrames,
+    start: () => {
+      state = 'recording';
+      node.port.postMessage({ command: 'start' });
+    },
+    pause: () => {
+      if (state !== 'recording') return;
+      state = 'paused';
+      node.port.postMessage({ command: 'pause' });
+    },
+    resume: () => {
+      if (state !== 'paused') return;
+      state = 'recording';
+      node.port.postMessage({ command: 'resume' });
+    },
+    stop: async () => {
+      const done = new Promise<void>(resolve => {
+        resolveDone = resolve;
+      });
+      node.port.postMessage({ command: 'stop' });
+      await done;
+
+      state = 'inactive';
+      source.disconnect(node);
+      node.disconnect();
+
+      const channels = concatenatePcmBlocks(blocks, channelCount);
+      return createWavBlob(channels, { sampleRate: context.sampleRate, bitDepth });
+    },
+  };
+};
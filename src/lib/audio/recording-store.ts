@@ -0,0 +1,104 @@
+import {
+  openDatabase,
+  requestToPromise,
+  transactionDone,
+  RECORDING_CHUNK_STORE,
+  RECORDING_SESSION_STORE,
+} from '@/lib/idb';
+import { type CaptureFormat } from './capture-settings';
+import { concatenatePcmBlocks } from './pcm-recorder';
+import { createWavBlob, type WavBitDepth } from './wav';
+
+// Streams recording chunks into IndexedDB while a take is in progress so a
+// reload or crash doesn't lose it. Sessions are removed once a take finishes
+// normally; anything left over on the next load was interrupted.
+
+export type RecordingSessionMeta = {
+  id: string;
+  startedAt: number;
+  format: CaptureFormat;
+  mimeType: string;
+  sampleRate: number;
+  channelCount: number;
+  bitDepth: WavBitDepth;
+};
+
+type RecordingChunk = {
+  sessionId: string;
+  // MediaRecorder timeslices are Blobs, worklet blocks are planar PCM
+  data: Blob | Float32Array[];
+};
+
+export const createRecordingSession = async (meta: Omit<RecordingSessionMeta, 'id' | 'startedAt'>): Promise<string> => {
+  const session: RecordingSessionMeta = {
+    ...meta,
+    id: `recording-${Date.now().toString(36)}`,
+    startedAt: Date.now(),
+  };
+
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDING_SESSION_STORE, 'readwrite');
+  transaction.objectStore(RECORDING_SESSION_STORE).put(session);
+  await transactionDone(transaction);
+
+  return session.id;
+};
+
+// Chunks are keyed by an auto-increment id, so insertion order is playback order
+export const appendRecordingChunk = async (sessionId: string, data: Blob | Float32Array[]) => {
+  const chunk: RecordingChunk = { sessionId, data };
+
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDING_CHUNK_STORE, 'readwrite');
+  transaction.objectStore(RECORDING_CHUNK_STORE).add(chunk);
+  await transactionDone(transaction);
+};
+
+export const discardRecordingSession = async (sessionId: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction([RECORDING_SESSION_STORE, RECORDING_CHUNK_STORE], 'readwrite');
+
+  transaction.objectStore(RECORDING_SESSION_STORE).delete(sessionId);
+  const cursorRequest = transaction.objectStore(RECORDING_CHUNK_STORE).index('sessionId').openCursor(sessionId);
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (cursor) {
+      cursor.delete();
+      cursor.continue();
+    }
+  };
+
+  await transactionDone(transaction);
+};
+
+export const findInterruptedSessions = async (): Promise<RecordingSessionMeta[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDING_SESSION_STORE, 'readonly');
+  const sessions = await requestToPromise<RecordingSessionMeta[]>(
+    transaction.objectStore(RECORDING_SESSION_STORE).getAll()
+  );
+
+  return sessions.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+// Reassemble the stored chunks into a playable blob
+export const recoverRecordingSession = async (session: RecordingSessionMeta): Promise<Blob> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(RECORDING_CHUNK_STORE, 'readonly');
+  const chunks = await requestToPromise<RecordingChunk[]>(
+    transaction.objectStore(RECORDING_CHUNK_STORE).index('sessionId').getAll(session.id)
+  );
+
+  if (!chunks.length) {
+    throw new Error("No audio was saved for this recording");
+  }
+
+  if (session.format === 'compressed') {
+    const blobs = chunks.map(chunk => chunk.data as Blob);
+    // Some browsers only report the container once recording has started
+    return new Blob(blobs, { type: session.mimeType || blobs[0].type || 'audio/webm' });
+  }
+
+  const channels = concatenatePcmBlocks(chunks.map(chunk => chunk.data as Float32Array[]), session.channelCount);
+  return createWavBlob(channels, { sampleRate: session.sampleRate, bitDepth: session.bitDepth });
+};
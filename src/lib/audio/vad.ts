@@ -0,0 +1,153 @@
+// Energy-based voice activity detection.
+// Levels are computed once per take; segmentation on top of them is cheap
+// enough to re-run on every threshold change.
+
+export type SpeechSegment = {
+  // Seconds from the start of the audio
+  start: number;
+  end: number;
+};
+
+export type VadOptions = {
+  // Frames louder than this (dBFS) count as active
+  thresholdDb: number;
+  // Gaps shorter than this many seconds are bridged
+  minPause: number;
+  // Active bursts shorter than this many seconds are dropped as clicks or bumps
+  minSpeech: number;
+  // Seconds kept on both sides of every segment
+  padding: number;
+};
+
+export type FrameLevels = {
+  levels: Float32Array;
+  frameDuration: number;
+  duration: number;
+};
+
+export const VAD_FRAME_DURATION = 0.02;
+
+export const DEFAULT_VAD_OPTIONS: VadOptions = {
+  thresholdDb: -45,
+  minPause: 0.3,
+  minSpeech: 0.1,
+  padding: 0.1,
+};
+
+// RMS level in dBFS for every frame of the channel mixdown
+export const computeFrameLevels = (
+  channels: Float32Array[],
+  sampleRate: number,
+  frameDuration = VAD_FRAME_DURATION
+): FrameLevels => {
+  const length = channels[0]?.length ?? 0;
+  const frameSize = Math.max(1, Math.round(frameDuration * sampleRate));
+  const frameCount = Math.ceil(length / frameSize);
+  const levels = new Float32Array(frameCount);
+
+  for (let frame = 0; frame < frameCount; frame++) {
+    const from = frame * frameSize;
+    const to = Math.min(length, from + frameSize);
+    let sum = 0;
+
+    for (let i = from; i < to; i++) {
+      let sample = 0;
+      for (const channel of channels) {
+        sample += channel[i];
+      }
+      sample /= channels.length;
+      sum += sample * sample;
+    }
+
+    const rms = Math.sqrt(sum / Math.max(1, to - from));
+    levels[frame] = 20 * Math.log10(rms + 1e-10);
+  }
+
+  return { levels, frameDuration: frameSize / sampleRate, duration: length / sampleRate };
+};
+
+// Loudest frame level under each drawn column, for a dB-scaled envelope
+export const computeLevelEnvelope = ({ levels }: FrameLevels, columns: number): Float32Array => {
+  const envelope = new Float32Array(columns).fill(-Infinity);
+  for (let frame = 0; frame < levels.length; frame++) {
+    const column = Math.min(columns - 1, Math.floor((frame / levels.length) * columns));
+    envelope[column] = Math.max(envelope[column], levels[frame]);
+  }
+  // Columns between frames of a short take repeat the previous level
+  for (let column = 1; column < columns; column++) {
+    if (envelope[column] === -Infinity) envelope[column] = envelope[column - 1];
+  }
+  return envelope;
+};
+
+export const detectSpeechSegments = (
+  { levels, frameDuration, duration }: FrameLevels,
+  options: VadOptions = DEFAULT_VAD_OPTIONS
+): SpeechSegment[] => {
+  // Raw runs of active frames
+  const runs: SpeechSegment[] = [];
+  let runStart = -1;
+  for (let frame = 0; frame <= levels.length; frame++) {
+    const isActive = frame < levels.length && levels[frame] > options.thresholdDb;
+    if (isActive && runStart < 0) {
+      runStart = frame;
+    } else if (!isActive && runStart >= 0) {
+      runs.push({ start: runStart * frameDuration, end: Math.min(duration, frame * frameDuration) });
+      runStart = -1;
+    }
+  }
+
+  // Bridge short pauses
+  const bridged: SpeechSegment[] = [];
+  for (const run of runs) {
+    const previous = bridged[bridged.length - 1];
+    if (previous && run.start - previous.end < options.minPause) {
+      previous.end = run.end;
+    } else {
+      bridged.push({ ...run });
+    }
+  }
+
+  // Drop short bursts, then pad and merge anything the padding made overlap
+  const segments: SpeechSegment[] = [];
+  for (const segment of bridged) {
+    if (segment.end - segment.start < options.minSpeech) continue;
+
+    const padded = {
+      start: Math.max(0, segment.start - options.padding),
+      end: Math.min(duration, segment.end + options.padding),
+    };
+    const previous = segments[segments.length - 1];
+    if (previous && padded.start <= previous.end) {
+      previous.end = padded.end;
+    } else {
+      segments.push(padded);
+    }
+  }
+
+  return segments;
+};
+
+// Internal pauses between speech regions
+export const findPauses = (segments: SpeechSegment[]): SpeechSegment[] => {
+  return segments.slice(1).map((segment, index) => ({
+    start: segments[index].end,
+    end: segment.start,
+  }));
+};
+
+// Span from the first speech onset to the last offset, or null for silence
+export const getSpeechBounds = (segments: SpeechSegment[]): SpeechSegment | null => {
+  if (!segments.length) return null;
+  return { start: segments[0].start, end: segments[segments.length - 1].end };
+};
+
+// Re-express segments relative to a trimmed range of the audio
+export const offsetSegments = (segments: SpeechSegment[], start: number, end: number): SpeechSegment[] => {
+  return segments
+    .filter(segment => segment.end > start && segment.start < end)
+    .map(segment => ({
+      start: Math.max(segment.start, start) - start,
+      end: Math.min(segment.end, end) - start,
+    }));
+};
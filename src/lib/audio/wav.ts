@@ -0,0 +1,178 @@
+// RIFF/WAV encoding for raw PCM captured from the Web Audio graph
+
+export type WavBitDepth = 16 | 24 | 32;
+
+export type WavEncodeOptions = {
+  sampleRate: number;
+  bitDepth?: WavBitDepth;
+};
+
+const writeUTFBytes = (view: DataView, offset: number, string: string) => {
+  for (let i = 0; i < string.length; i++) {
+    view.setUint8(offset + i, string.charCodeAt(i));
+  }
+};
+
+// Encode planar channel data into a WAV file.
+// 16 and 24 bit use integer PCM (format 1), 32 bit uses IEEE float (format 3).
+export const encodeWAV = (channels: Float32Array[], { sampleRate, bitDepth = 16 }: WavEncodeOptions): ArrayBuffer => {
+  const numOfChan = channels.length;
+  const frameCount = numOfChan ? channels[0].length : 0;
+  const bytesPerSample = bitDepth / 8;
+  const blockAlign = numOfChan * bytesPerSample;
+  const dataLength = frameCount * blockAlign;
+  const result = new ArrayBuffer(44 + dataLength);
+  const view = new DataView(result);
+
+  writeUTFBytes(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataLength, true);
+  writeUTFBytes(view, 8, 'WAVE');
+
+  writeUTFBytes(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, bitDepth === 32 ? 3 : 1, true);
+  view.setUint16(22, numOfChan, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, bitDepth, true);
+
+  writeUTFBytes(view, 36, 'data');
+  view.setUint32(40, dataLength, true);
+
+  let offset = 44;
+  for (let i = 0; i < frameCount; i++) {
+    for (let channel = 0; channel < numOfChan; channel++) {
+      const sample = Math.max(-1, Math.min(1, channels[channel][i]));
+
+      if (bitDepth === 32) {
+        view.setFloat32(offset, sample, true);
+      } else if (bitDepth === 24) {
+        const int24 = Math.round(sample < 0 ? sample * 0x800000 : sample * 0x7FFFFF);
+        view.setUint8(offset, int24 & 0xFF);
+        view.setUint8(offset + 1, (int24 >> 8) & 0xFF);
+        view.setUint8(offset + 2, (int24 >> 16) & 0xFF);
+      } else {
+        const int16 = sample < 0 ? sample * 0x8000 : sample * 0x7FFF;
+        view.setInt16(offset, int16, true);
+      }
+      offset += bytesPerSample;
+    }
+  }
+
+  return result;
+};
+
+// Convenience wrapper for rendered/decoded AudioBuffers
+export const encodeAudioBufferToWAV = (buffer: AudioBuffer, bitDepth: WavBitDepth = 16): ArrayBuffer => {
+  const channels: Float32Array[] = [];
+  for (let i = 0; i < buffer.numberOfChannels; i++) {
+    channels.push(buffer.getChannelData(i));
+  }
+  return encodeWAV(channels, { sampleRate: buffer.sampleRate, bitDepth });
+};
+
+export const createWavBlob = (channels: Float32Array[], options: WavEncodeOptions): Blob => {
+  return new Blob([encodeWAV(channels, options)], { type: 'audio/wav' });
+};
+
+// Read the sample format of an existing WAV file, or null if it isn't one we write
+export const readWavBitDepth = (data: ArrayBuffer): WavBitDepth | null => {
+  if (data.byteLength < 44) return null;
+
+  const view = new DataView(data);
+  const readTag = (offset: number) => String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+  if (readTag(0) !== 'RIFF' || readTag(8) !== 'WAVE' || readTag(12) !== 'fmt ') return null;
+
+  const bitDepth = view.getUint16(34, true);
+  return bitDepth === 16 || bitDepth === 24 || bitDepth === 32 ? bitDepth : null;
+};
+
+export type DecodedWav = {
+  sampleRate: number;
+  // Planar samples in -1..1
+  channels: Float32Array[];
+};
+
+export class WavDecodeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'WavDecodeError';
+  }
+}
+
+// Decode integer (8-32 bit) or 32-bit float PCM WAV without Web Audio, for
+// environments such as Node where decodeAudioData is not available
+export const decodeWav = (data: ArrayBuffer): DecodedWav => {
+  const view = new DataView(data);
+  const readTag = (offset: number) => String.fromCharCode(
+    view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3)
+  );
+  if (data.byteLength < 12 || readTag(0) !== 'RIFF' || readTag(8) !== 'WAVE') {
+    throw new WavDecodeError("Not a RIFF/WAVE file");
+  }
+
+  let format: { audioFormat: number; channelCount: number; sampleRate: number; bitDepth: number } | null = null;
+  let dataOffset = -1;
+  let dataLength = 0;
+
+  // Chunks are word-aligned; anything besides fmt and data is skipped
+  for (let offset = 12; offset + 8 <= data.byteLength; ) {
+    const tag = readTag(offset);
+    const size = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (tag === 'fmt ') {
+      let audioFormat = view.getUint16(body, true);
+      // WAVE_FORMAT_EXTENSIBLE keeps the real format in the sub-format GUID
+      if (audioFormat === 0xfffe && size >= 26) audioFormat = view.getUint16(body + 24, true);
+      format = {
+        audioFormat,
+        channelCount: view.getUint16(body + 2, true),
+        sampleRate: view.getUint32(body + 4, true),
+        bitDepth: view.getUint16(body + 14, true),
+      };
+    } else if (tag === 'data') {
+      dataOffset = body;
+      dataLength = Math.min(size, data.byteLength - body);
+    }
+    offset = body + size + (size % 2);
+  }
+
+  if (!format || dataOffset < 0) throw new WavDecodeError("Missing fmt or data chunk");
+
+  const { audioFormat, channelCount, sampleRate, bitDepth } = format;
+  const isFloat = audioFormat === 3 && bitDepth === 32;
+  if (!isFloat && (audioFormat !== 1 || ![8, 16, 24, 32].includes(bitDepth))) {
+    throw new WavDecodeError(`Unsupported WAV format ${audioFormat} at ${bitDepth} bit`);
+  }
+
+  const bytesPerSample = bitDepth / 8;
+  const frameCount = Math.floor(dataLength / (bytesPerSample * channelCount));
+  const channels = Array.from({ length: channelCount }, () => new Float32Array(frameCount));
+
+  let offset = dataOffset;
+  for (let i = 0; i < frameCount; i++) {
+    for (let channel = 0; channel < channelCount; channel++) {
+      let sample: number;
+      if (isFloat) {
+        sample = view.getFloat32(offset, true);
+      } else if (bitDepth === 8) {
+        sample = (view.getUint8(offset) - 128) / 128;
+      } else if (bitDepth === 16) {
+        sample = view.getInt16(offset, true) / 0x8000;
+      } else if (bitDepth === 24) {
+        const value = view.getUint8(offset) | (view.getUint8(offset + 1) << 8) | (view.getInt8(offset + 2) << 16);
+        sample = value / 0x800000;
+      } else {
+        sample = view.getInt32(offset, true) / 0x80000000;
+      }
+      channels[channel][i] = sample;
+      offset += bytesPerSample;
+    }
+  }
+
+  return { sampleRate, channels };
+};
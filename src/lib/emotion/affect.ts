@@ -0,0 +1,53 @@
+// Continuous valence/arousal (circumplex) view of the moods.
+// Each mood sits at a fixed anchor; score vectors map to their weighted
+// position and any point maps back to weights over the nearby anchors.
+
+import { type Mood } from '@/components/MoodSelector';
+import { MOODS, normalizeScores, rankMoods, type MoodScores } from './scores';
+
+export type AffectPoint = {
+  // -1 (unpleasant) .. 1 (pleasant)
+  valence: number;
+  // -1 (deactivated) .. 1 (activated)
+  arousal: number;
+};
+
+export const MOOD_ANCHORS: Record<Mood, AffectPoint> = {
+  happy: { valence: 0.8, arousal: 0.4 },
+  calm: { valence: 0.5, arousal: -0.7 },
+  energetic: { valence: 0.4, arousal: 0.9 },
+  sad: { valence: -0.7, arousal: -0.5 },
+  angry: { valence: -0.7, arousal: 0.8 },
+};
+
+// Keeps the weight of a point sitting exactly on an anchor finite
+const DISTANCE_EPSILON = 0.01;
+
+const clamp = (value: number) => Math.max(-1, Math.min(1, value));
+
+// Score-weighted average of the anchors
+export const scoresToAffect = (scores: MoodScores): AffectPoint => {
+  return MOODS.reduce(
+    (point, mood) => ({
+      valence: point.valence + scores[mood] * MOOD_ANCHORS[mood].valence,
+      arousal: point.arousal + scores[mood] * MOOD_ANCHORS[mood].arousal,
+    }),
+    { valence: 0, arousal: 0 }
+  );
+};
+
+// Inverse squared distance to every anchor, so weights shift smoothly as the point moves
+export const affectToScores = (point: AffectPoint): MoodScores => {
+  return normalizeScores(Object.fromEntries(MOODS.map(mood => {
+    const anchor = MOOD_ANCHORS[mood];
+    const distance = (point.valence - anchor.valence) ** 2 + (point.arousal - anchor.arousal) ** 2;
+    return [mood, 1 / (distance + DISTANCE_EPSILON)];
+  })) as MoodScores);
+};
+
+export const nearestMood = (point: AffectPoint): Mood => rankMoods(affectToScores(point))[0].mood;
+
+export const clampAffect = (point: AffectPoint): AffectPoint => ({
+  valence: clamp(point.valence),
+  arousal: clamp(point.arousal),
+});
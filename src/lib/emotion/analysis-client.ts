@@ -0,0 +1,56 @@
+import { type AnalysisProgress, type AnalysisRequest, type AnalysisResponse } from './analysis';
+import { type AnalysisWorkerMessage } from './analysis.worker';
+import { OnnxModelError } from './onnx-classifier';
+
+type AnalyzeOptions = {
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Aborting terminates the worker and rejects with an AbortError
+  signal?: AbortSignal;
+};
+
+// Each analysis gets its own worker, so cancelling is a plain terminate.
+// The samples buffer is transferred and unusable by the caller afterwards.
+export const analyzeInWorker = (request: AnalysisRequest, options: AnalyzeOptions = {}): Promise<AnalysisResponse> => {
+  const { onProgress, signal } = options;
+
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException("Analysis was cancelled", 'AbortError'));
+      return;
+    }
+
+    const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), { type: 'module' });
+
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', abort);
+    };
+    const abort = () => {
+      finish();
+      reject(new DOMException("Analysis was cancelled", 'AbortError'));
+    };
+    signal?.addEventListener('abort', abort);
+
+    worker.onmessage = (event: MessageEvent<AnalysisWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+
+      finish();
+      if (message.type === 'result') {
+        resolve(message.response);
+      } else {
+        // Errors lose their class crossing the thread boundary
+        reject(message.name === 'OnnxModelError' ? new OnnxModelError(message.message) : new Error(message.message));
+      }
+    };
+    worker.onerror = (event) => {
+      finish();
+      reject(new Error(event.message || "The analysis worker failed to start"));
+    };
+
+    worker.postMessage(request, [request.samples.buffer]);
+  });
+};
@@ -0,0 +1,95 @@
+// Full emotion analysis of one recording: overall result plus timeline.
+// Runs inside the analysis worker; the request is plain data so it can be
+// posted across threads.
+
+import { type SpeechSegment } from '@/lib/audio/vad';
+import { withCalibration, type FeatureCalibration } from './calibration';
+import { toEmotionResult, type EmotionClassifier, type EmotionResult } from './classifier';
+import { assessEmotionResult } from './confidence';
+import { extractSpeechFeatures } from './detect';
+import { explainEmotion, type EmotionExplanation } from './explain';
+import { createHeuristicClassifier } from './heuristic';
+import { createOnnxClassifier } from './onnx-classifier';
+import { computeEmotionTimeline, type EmotionWindow } from './timeline';
+
+// Enough to rebuild the active classifier on the other side of postMessage
+export type ClassifierSpec =
+  // The active calibration profile only applies to the rules; a model gets the
+  // raw features it was trained on (the dataset export is uncalibrated too)
+  | { backend: 'heuristic'; demoSeed: number | null; calibration: FeatureCalibration | null }
+  | { backend: 'onnx'; name: string; model: ArrayBuffer };
+
+export type AnalysisRequest = {
+  samples: Float32Array;
+  sampleRate: number;
+  speechSegments: SpeechSegment[];
+  classifier: ClassifierSpec;
+  // Skip the overall result when only the timeline needs recomputing
+  includeResult: boolean;
+  // Overall results scoring below this are reported as uncertain
+  confidenceFloor: number;
+  timelineWindow: number;
+};
+
+export type AnalysisStage = 'features' | 'timeline';
+
+export type AnalysisProgress = {
+  stage: AnalysisStage;
+  // Overall share of the work done (0-1)
+  progress: number;
+};
+
+export type AnalysisResponse = {
+  result: EmotionResult | null;
+  // Present together with the result
+  explanation: EmotionExplanation | null;
+  timeline: EmotionWindow[];
+};
+
+export const createClassifierFromSpec = async (spec: ClassifierSpec): Promise<EmotionClassifier> => {
+  if (spec.backend === 'onnx') return createOnnxClassifier(spec.model, spec.name);
+  return withCalibration(createHeuristicClassifier({ demoSeed: spec.demoSeed }), spec.calibration);
+};
+
+export const runEmotionAnalysis = async (
+  request: AnalysisRequest,
+  classifier: EmotionClassifier,
+  onProgress: (progress: AnalysisProgress) => void
+): Promise<AnalysisResponse> => {
+  // The overall features and the timeline take roughly equal time
+  const timelineShare = request.includeResult ? 0.5 : 1;
+
+  let result: EmotionResult | null = null;
+  let explanation: EmotionExplanation | null = null;
+  if (request.includeResult) {
+    const features = extractSpeechFeatures(
+      request.samples,
+      request.sampleRate,
+      request.speechSegments,
+      (fraction) => onProgress({ stage: 'features', progress: fraction * (1 - timelineShare) })
+    );
+    result = assessEmotionResult(
+      toEmotionResult(await classifier.classify(features)),
+      request.samples,
+      features,
+      request.confidenceFloor
+    );
+    explanation = explainEmotion(
+      features,
+      result,
+      request.classifier.backend,
+      request.classifier.backend === 'heuristic' ? request.classifier.calibration : null
+    );
+  }
+
+  const timeline = await computeEmotionTimeline(
+    request.samples,
+    request.sampleRate,
+    classifier,
+    request.timelineWindow,
+    request.speechSegments,
+    (fraction) => onProgress({ stage: 'timeline', progress: 1 - timelineShare + fraction * timelineShare })
+  );
+
+  return { result, explanation, timeline };
+};
@@ -0,0 +1,33 @@
+// Runs emotion analysis off the main thread; see analysis-client.ts
+
+import {
+  createClassifierFromSpec,
+  runEmotionAnalysis,
+  type AnalysisProgress,
+  type AnalysisRequest,
+  type AnalysisResponse,
+} from './analysis';
+
+export type AnalysisWorkerMessage =
+  | { type: 'progress'; progress: AnalysisProgress }
+  | { type: 'result'; response: AnalysisResponse }
+  | { type: 'error'; name: string; message: string };
+
+const post = (message: AnalysisWorkerMessage) => self.postMessage(message);
+
+self.onmessage = async (event: MessageEvent<AnalysisRequest>) => {
+  try {
+    const classifier = await createClassifierFromSpec(event.data.classifier);
+    const response = await runEmotionAnalysis(event.data, classifier, (progress) => {
+      post({ type: 'progress', progress });
+    });
+    post({ type: 'result', response });
+  } catch (error) {
+    console.error("Error in emotion analysis worker:", error);
+    post({
+      type: 'error',
+      name: error instanceof Error ? error.name : 'Error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+};
@@ -0,0 +1,196 @@
+// Per-user calibration. A user records short neutral, happy and angry clips;
+// for each rule measure the contrast between two of them gives that user's own
+// baseline and scale, and later features are mapped so the contrast lands on
+// either side of the built-in threshold. A soft-spoken user's raised voice
+// then reads as loud even if it never reaches the global loudness threshold.
+//
+// Only the measures the rules read are adjusted (mean RMS, spectral centroid
+// and pitch variation); every other feature passes through unchanged. The
+// mapping is defined against the rule thresholds, so it is only applied in
+// front of the rule-based classifier, never in front of an imported model.
+
+import { type AudioFeatures } from '@/lib/audio/features';
+import { computeFrameLevels, detectSpeechSegments } from '@/lib/audio/vad';
+import { type EmotionClassifier } from './classifier';
+import { extractSpeechFeatures } from './detect';
+import { measureRules, RULE_THRESHOLDS, type RuleMeasure } from './heuristic';
+
+export type CalibrationClip = 'neutral' | 'happy' | 'angry';
+
+export const CALIBRATION_CLIPS: CalibrationClip[] = ['neutral', 'happy', 'angry'];
+
+export const CALIBRATION_PROMPTS: Record<CalibrationClip, string> = {
+  neutral: "Say a sentence in your everyday voice, as if reading a shopping list.",
+  happy: "Say the same sentence as if sharing great news with a friend.",
+  angry: "Say it again as if you were really annoyed.",
+};
+
+// Seconds recorded for each reference clip
+export const CALIBRATION_CLIP_DURATION = 5;
+
+export type FeatureNormalization = {
+  // The user's value that maps onto the rule threshold
+  baseline: number;
+  // The user's distance between the two contrasting clips
+  scale: number;
+};
+
+export type FeatureCalibration = Record<RuleMeasure, FeatureNormalization>;
+
+export type CalibrationProfile = {
+  id: string;
+  name: string;
+  createdAt: number;
+  calibration: FeatureCalibration;
+};
+
+export class CalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalibrationError';
+  }
+}
+
+// Which clips set the low and the high end of each measure
+const CONTRASTS: Record<RuleMeasure, { low: CalibrationClip[]; high: CalibrationClip[] }> = {
+  loudness: { low: ['neutral'], high: ['happy', 'angry'] },
+  brightness: { low: ['happy'], high: ['angry'] },
+  liveliness: { low: ['angry'], high: ['happy'] },
+};
+
+// The contrasting clips end up this many spreads apart, one on each side of the threshold
+const REFERENCE_CONTRAST_SPREADS = 4;
+// Contrasts smaller than this many spreads are too weak to rescale by;
+// the baseline is still moved but the scale is left alone
+const MIN_CONTRAST_SPREADS = 0.5;
+// Clips quieter than this (linear RMS) can't be measured
+const MIN_CLIP_RMS = 0.001;
+
+const IDENTITY: FeatureCalibration = Object.fromEntries(
+  Object.entries(RULE_THRESHOLDS).map(([measure, { threshold, spread }]) => [
+    measure,
+    { baseline: threshold, scale: REFERENCE_CONTRAST_SPREADS * spread },
+  ])
+) as FeatureCalibration;
+
+// Features of a reference clip's speech, measured the way detection measures a recording
+export const measureCalibrationClip = (clip: CalibrationClip, samples: Float32Array, sampleRate: number): AudioFeatures => {
+  const speechSegments = detectSpeechSegments(computeFrameLevels([samples], sampleRate));
+  if (!speechSegments.length) {
+    throw new CalibrationError(`No speech was heard in the ${clip} clip. Record it again closer to the microphone.`);
+  }
+  return extractSpeechFeatures(samples, sampleRate, speechSegments);
+};
+
+const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const computeCalibration = (clips: Record<CalibrationClip, AudioFeatures>): FeatureCalibration => {
+  CALIBRATION_CLIPS.forEach(clip => {
+    if (clips[clip].rms.mean < MIN_CLIP_RMS) {
+      throw new CalibrationError(`The ${clip} clip is silent. Record it again closer to the microphone.`);
+    }
+  });
+
+  const measures = Object.fromEntries(
+    CALIBRATION_CLIPS.map(clip => [clip, measureRules(clips[clip])])
+  ) as Record<CalibrationClip, Record<RuleMeasure, number>>;
+
+  return Object.fromEntries(
+    (Object.keys(CONTRASTS) as RuleMeasure[]).map(measure => {
+      const { low, high } = CONTRASTS[measure];
+      // Pitch variation is meaningless for clips without voiced frames
+      if (measure === 'liveliness' && [...low, ...high].some(clip => clips[clip].pitch.mean === 0)) {
+        return [measure, IDENTITY[measure]];
+      }
+
+      const lowValue = average(low.map(clip => measures[clip][measure]));
+      const highValue = average(high.map(clip => measures[clip][measure]));
+      const contrast = highValue - lowValue;
+      const minContrast = MIN_CONTRAST_SPREADS * RULE_THRESHOLDS[measure].spread;
+
+      return [measure, {
+        baseline: (lowValue + highValue) / 2,
+        scale: contrast >= minContrast ? contrast : IDENTITY[measure].scale,
+      }];
+    })
+  ) as FeatureCalibration;
+};
+
+const normalizeMeasure = (measure: RuleMeasure, value: number, calibration: FeatureCalibration) => {
+  const { threshold, spread } = RULE_THRESHOLDS[measure];
+  const { baseline, scale } = calibration[measure];
+  return threshold + ((value - baseline) / scale) * REFERENCE_CONTRAST_SPREADS * spread;
+};
+
+// Features as they would have measured for the reference speaker
+export const calibrateFeatures = (features: AudioFeatures, calibration: FeatureCalibration): AudioFeatures => {
+  const measures = measureRules(features);
+
+  const loudnessDb = normalizeMeasure('loudness', measures.loudness, calibration);
+  const gain = Math.pow(10, (loudnessDb - measures.loudness) / 20);
+  const centroidOffset = normalizeMeasure('brightness', measures.brightness, calibration) - measures.brightness;
+  const pitchVariation = Math.max(0, normalizeMeasure('liveliness', measures.liveliness, calibration));
+
+  return {
+    ...features,
+    rmsContour: features.rmsContour.map(value => value * gain),
+    rms: {
+      mean: features.rms.mean * gain,
+      std: features.rms.std * gain,
+      min: features.rms.min * gain,
+      max: features.rms.max * gain,
+    },
+    spectralCentroid: {
+      ...features.spectralCentroid,
+      mean: features.spectralCentroid.mean + centroidOffset,
+      min: features.spectralCentroid.min + centroidOffset,
+      max: features.spectralCentroid.max + centroidOffset,
+    },
+    pitch: features.pitch.mean > 0
+      ? { ...features.pitch, std: pitchVariation * features.pitch.mean }
+      : features.pitch,
+  };
+};
+
+export const withCalibration = (classifier: EmotionClassifier, calibration: FeatureCalibration | null): EmotionClassifier => {
+  if (!calibration) return classifier;
+  return {
+    ...classifier,
+    classify: (features) => classifier.classify(calibrateFeatures(features, calibration)),
+  };
+};
+
+export type CalibrationSettings = {
+  // null when detection runs uncalibrated
+  activeProfileId: string | null;
+  profiles: CalibrationProfile[];
+};
+
+export const DEFAULT_CALIBRATION_SETTINGS: CalibrationSettings = {
+  activeProfileId: null,
+  profiles: [],
+};
+
+const STORAGE_KEY = 'audio-emotion-scapes:calibration';
+
+export const loadCalibrationSettings = (): CalibrationSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_CALIBRATION_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CALIBRATION_SETTINGS;
+  } catch (error) {
+    console.error("Error loading calibration settings:", error);
+    return DEFAULT_CALIBRATION_SETTINGS;
+  }
+};
+
+export const saveCalibrationSettings = (settings: CalibrationSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving calibration settings:", error);
+  }
+};
+
+export const getActiveProfile = (settings: CalibrationSettings): CalibrationProfile | null => {
+  return settings.profiles.find(profile => profile.id === settings.activeProfileId) ?? null;
+};
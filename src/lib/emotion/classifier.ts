@@ -0,0 +1,67 @@
+// Pluggable emotion classifiers: acoustic features in, per-mood scores out.
+// The detector only talks to this interface, so the rule-based heuristic and
+// user-supplied ONNX models are interchangeable.
+
+import { type Mood } from '@/components/MoodSelector';
+import { type AudioFeatures } from '@/lib/audio/features';
+import { scoresToAffect, type AffectPoint } from './affect';
+import { rankMoods, type MoodScores } from './scores';
+
+export type ClassifierBackend = 'heuristic' | 'onnx';
+
+export type EmotionClassifier = {
+  backend: ClassifierBackend;
+  // Shown in the UI, e.g. the model file name
+  name: string;
+  classify: (features: AudioFeatures) => Promise<MoodScores>;
+};
+
+// Why the detector abstained from suggesting a mood
+export type UncertainReason = 'too-quiet' | 'too-short' | 'clipped' | 'no-speech' | 'low-confidence';
+
+export type EmotionResult = {
+  // Highest scoring mood and its score
+  mood: Mood;
+  confidence: number;
+  scores: MoodScores;
+  // Continuous position on the valence/arousal plane
+  affect: AffectPoint;
+  // Set when the detector abstains; mood and scores are then only a best guess
+  uncertain: UncertainReason | null;
+};
+
+export const toEmotionResult = (scores: MoodScores): EmotionResult => {
+  const [top] = rankMoods(scores);
+  return { mood: top.mood, confidence: top.score, scores, affect: scoresToAffect(scores), uncertain: null };
+};
+
+export type ClassifierSettings = {
+  backend: ClassifierBackend;
+  // Results whose top score is below this are reported as uncertain
+  confidenceFloor: number;
+};
+
+export const DEFAULT_CLASSIFIER_SETTINGS: ClassifierSettings = {
+  backend: 'heuristic',
+  confidenceFloor: 0.4,
+};
+
+const STORAGE_KEY = 'audio-emotion-scapes:classifier-settings';
+
+export const loadClassifierSettings = (): ClassifierSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_CLASSIFIER_SETTINGS, ...JSON.parse(stored) } : DEFAULT_CLASSIFIER_SETTINGS;
+  } catch (error) {
+    console.error("Error loading classifier settings:", error);
+    return DEFAULT_CLASSIFIER_SETTINGS;
+  }
+};
+
+export const saveClassifierSettings = (settings: ClassifierSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving classifier settings:", error);
+  }
+};
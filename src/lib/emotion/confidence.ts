@@ -0,0 +1,81 @@
+// Deciding when not to suggest a mood. Problems with the signal itself
+// (silence, too little speech, clipping) always make the result uncertain,
+// since the classifier answers confidently even for silence; otherwise the
+// result is uncertain when its top score is below the configured floor.
+
+import { type AudioFeatures } from '@/lib/audio/features';
+import { type EmotionResult, type UncertainReason } from './classifier';
+
+export const MIN_CONFIDENCE_FLOOR = 0;
+export const MAX_CONFIDENCE_FLOOR = 0.8;
+
+// Seconds of analysed speech needed for a judgement
+const MIN_SPEECH_DURATION = 2;
+// Mean frame RMS below this (about -46 dBFS) is too quiet to measure
+const MIN_SPEECH_RMS = 0.005;
+// Share of voiced frames below which the audio holds no speech
+const MIN_VOICED_RATIO = 0.1;
+// Samples at or above this magnitude count as clipped, and this share of
+// clipped samples distorts the spectral measures too much
+const CLIP_LEVEL = 0.999;
+const MAX_CLIPPED_SHARE = 0.01;
+
+export const UNCERTAIN_MESSAGES: Record<UncertainReason, { title: string; fix: string }> = {
+  'too-quiet': {
+    title: "The recording is too quiet to judge.",
+    fix: "Move closer to the microphone or raise the input gain, then record again.",
+  },
+  'too-short': {
+    title: "There is too little speech to judge.",
+    fix: `Record at least ${MIN_SPEECH_DURATION} seconds of speech, or trim less of it.`,
+  },
+  clipped: {
+    title: "The recording is distorted by clipping.",
+    fix: "Lower the input gain or move back from the microphone, then record again.",
+  },
+  'no-speech': {
+    title: "No speech was found in the recording.",
+    fix: "Speak during the recording, or pick a mood yourself.",
+  },
+  'low-confidence': {
+    title: "No mood stands out clearly.",
+    fix: "Try a more expressive take, or pick a mood yourself.",
+  },
+};
+
+const clippedShare = (samples: Float32Array) => {
+  if (!samples.length) return 0;
+
+  let clipped = 0;
+  for (let index = 0; index < samples.length; index++) {
+    if (Math.abs(samples[index]) >= CLIP_LEVEL) clipped++;
+  }
+  return clipped / samples.length;
+};
+
+// Only the floor can be checked when the audio itself isn't at hand (e.g. live estimates)
+export const applyConfidenceFloor = (result: EmotionResult, confidenceFloor: number): EmotionResult => {
+  if (result.uncertain || result.confidence >= confidenceFloor) return result;
+  return { ...result, uncertain: 'low-confidence' };
+};
+
+// `samples` is the whole recording, `features` what the classifier saw
+export const assessEmotionResult = (
+  result: EmotionResult,
+  samples: Float32Array,
+  features: AudioFeatures,
+  confidenceFloor: number
+): EmotionResult => {
+  let reason: UncertainReason | null = null;
+  if (features.rms.mean < MIN_SPEECH_RMS) {
+    reason = 'too-quiet';
+  } else if (features.voicedRatio < MIN_VOICED_RATIO) {
+    reason = 'no-speech';
+  } else if (features.duration < MIN_SPEECH_DURATION) {
+    reason = 'too-short';
+  } else if (clippedShare(samples) > MAX_CLIPPED_SHARE) {
+    reason = 'clipped';
+  }
+
+  return reason ? { ...result, uncertain: reason } : applyConfidenceFloor(result, confidenceFloor);
+};
@@ -0,0 +1,68 @@
+// Layout of an exported emotion dataset. Kept free of browser APIs so tools
+// outside the app can read the same format.
+//
+//   emotion-dataset/
+//     manifest.csv
+//     manifest.jsonl
+//     audio/<label>/<id>.wav
+//
+// Paths in the manifest are relative to the dataset folder.
+
+import { type Mood } from '@/components/MoodSelector';
+import { FEATURE_NAMES } from '@/lib/audio/features';
+import { MOODS, type MoodScores } from './scores';
+
+export const DATASET_FOLDER = 'emotion-dataset';
+export const MANIFEST_CSV = 'manifest.csv';
+export const MANIFEST_JSONL = 'manifest.jsonl';
+
+export type DatasetManifestEntry = {
+  id: string;
+  audio: string;
+  // The mood the user chose
+  label: Mood;
+  // The detector's top mood and its full distribution
+  predicted: Mood;
+  scores: MoodScores;
+  // Raw, uncalibrated features keyed by FEATURE_NAMES
+  features: Record<string, number>;
+  duration: number;
+  sample_rate: number;
+  // ISO 8601
+  created_at: string;
+};
+
+export const datasetAudioPath = (label: Mood, id: string) => `audio/${label}/${id}.wav`;
+
+export const toManifestJSONL = (entries: DatasetManifestEntry[]): string => {
+  return entries.map(entry => JSON.stringify(entry)).join('\n') + '\n';
+};
+
+export const parseManifestJSONL = (text: string): DatasetManifestEntry[] => {
+  return text
+    .split('\n')
+    .filter(line => line.trim())
+    .map(line => JSON.parse(line) as DatasetManifestEntry);
+};
+
+// One row per sample: metadata, then score_<mood> columns, then one column per feature
+export const toManifestCSV = (entries: DatasetManifestEntry[]): string => {
+  const header = [
+    'id', 'audio', 'label', 'predicted', 'duration', 'sample_rate', 'created_at',
+    ...MOODS.map(mood => `score_${mood}`),
+    ...FEATURE_NAMES,
+  ].join(',');
+  const rows = entries.map(entry => [
+    entry.id,
+    entry.audio,
+    entry.label,
+    entry.predicted,
+    entry.duration.toFixed(3),
+    entry.sample_rate,
+    entry.created_at,
+    ...MOODS.map(mood => entry.scores[mood].toFixed(4)),
+    ...FEATURE_NAMES.map(name => entry.features[name]),
+  ].join(','));
+
+  return [header, ...rows].join('\n') + '\n';
+};
@@ -0,0 +1,144 @@
+import { openDatabase, requestToPromise, transactionDone, DATASET_SAMPLE_STORE } from '@/lib/idb';
+import { type Mood } from '@/components/MoodSelector';
+import { decodeAudioBlob } from '@/lib/audio/decode';
+import { FEATURE_NAMES, toFeatureVector } from '@/lib/audio/features';
+import { type SpeechSegment } from '@/lib/audio/vad';
+import { createWavBlob } from '@/lib/audio/wav';
+import { createZipBlob } from '@/lib/zip';
+import { extractSpeechFeatures } from './detect';
+import {
+  DATASET_FOLDER,
+  datasetAudioPath,
+  MANIFEST_CSV,
+  MANIFEST_JSONL,
+  toManifestCSV,
+  toManifestJSONL,
+  type DatasetManifestEntry,
+} from './dataset-manifest';
+import { rankMoods, type MoodScores } from './scores';
+
+// Opt-in local training data: recordings where the user overrode the
+// detector's suggestion, with the features and scores it saw. Nothing leaves
+// the device unless the dataset is exported.
+
+export type DatasetSample = {
+  // One sample per recording; relabelling replaces it
+  id: string;
+  createdAt: number;
+  // 16-bit WAV of the recording as analysed
+  audio: Blob;
+  sampleRate: number;
+  duration: number;
+  // Raw features in FEATURE_NAMES order
+  features: number[];
+  predictedScores: MoodScores;
+  label: Mood;
+};
+
+export const createDatasetSample = async (
+  id: string,
+  recording: Blob,
+  speechSegments: SpeechSegment[],
+  predictedScores: MoodScores,
+  label: Mood
+): Promise<DatasetSample> => {
+  const audioBuffer = await decodeAudioBlob(recording);
+  const channels = Array.from({ length: audioBuffer.numberOfChannels }, (_, index) => audioBuffer.getChannelData(index));
+  const features = extractSpeechFeatures(channels[0], audioBuffer.sampleRate, speechSegments);
+
+  return {
+    id,
+    createdAt: Date.now(),
+    audio: createWavBlob(channels, { sampleRate: audioBuffer.sampleRate, bitDepth: 16 }),
+    sampleRate: audioBuffer.sampleRate,
+    duration: audioBuffer.duration,
+    features: toFeatureVector(features),
+    predictedScores,
+    label,
+  };
+};
+
+export const putDatasetSample = async (sample: DatasetSample) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(DATASET_SAMPLE_STORE, 'readwrite');
+  transaction.objectStore(DATASET_SAMPLE_STORE).put(sample);
+  await transactionDone(transaction);
+};
+
+export const deleteDatasetSample = async (id: string) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(DATASET_SAMPLE_STORE, 'readwrite');
+  transaction.objectStore(DATASET_SAMPLE_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+export const listDatasetSamples = async (): Promise<DatasetSample[]> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(DATASET_SAMPLE_STORE, 'readonly');
+  const samples = await requestToPromise<DatasetSample[]>(transaction.objectStore(DATASET_SAMPLE_STORE).getAll());
+  return samples.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+export const countDatasetSamples = async (): Promise<number> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(DATASET_SAMPLE_STORE, 'readonly');
+  return requestToPromise(transaction.objectStore(DATASET_SAMPLE_STORE).count());
+};
+
+export const clearDataset = async () => {
+  const db = await openDatabase();
+  const transaction = db.transaction(DATASET_SAMPLE_STORE, 'readwrite');
+  transaction.objectStore(DATASET_SAMPLE_STORE).clear();
+  await transactionDone(transaction);
+};
+
+const toManifestEntry = (sample: DatasetSample): DatasetManifestEntry => ({
+  id: sample.id,
+  audio: datasetAudioPath(sample.label, sample.id),
+  label: sample.label,
+  predicted: rankMoods(sample.predictedScores)[0].mood,
+  scores: sample.predictedScores,
+  features: Object.fromEntries(FEATURE_NAMES.map((name, index) => [name, sample.features[index]])),
+  duration: sample.duration,
+  sample_rate: sample.sampleRate,
+  created_at: new Date(sample.createdAt).toISOString(),
+});
+
+// The dataset folder as a single archive, see dataset-manifest.ts for the layout
+export const exportDatasetZip = async (samples: DatasetSample[]): Promise<Blob> => {
+  const entries = samples.map(toManifestEntry);
+  return createZipBlob([
+    { path: `${DATASET_FOLDER}/${MANIFEST_CSV}`, data: toManifestCSV(entries) },
+    { path: `${DATASET_FOLDER}/${MANIFEST_JSONL}`, data: toManifestJSONL(entries) },
+    ...samples.map((sample, index) => ({ path: `${DATASET_FOLDER}/${entries[index].audio}`, data: sample.audio })),
+  ]);
+};
+
+export type DatasetSettings = {
+  // Collection is off until the user opts in
+  enabled: boolean;
+};
+
+export const DEFAULT_DATASET_SETTINGS: DatasetSettings = {
+  enabled: false,
+};
+
+const STORAGE_KEY = 'audio-emotion-scapes:dataset-settings';
+
+export const loadDatasetSettings = (): DatasetSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? { ...DEFAULT_DATASET_SETTINGS, ...JSON.parse(stored) } : DEFAULT_DATASET_SETTINGS;
+  } catch (error) {
+    console.error("Error loading dataset settings:", error);
+    return DEFAULT_DATASET_SETTINGS;
+  }
+};
+
+export const saveDatasetSettings = (settings: DatasetSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving dataset settings:", error);
+  }
+};
@@ -0,0 +1,44 @@
+// Speech emotion detection pipeline: pick the speech, extract features, classify
+
+import { extractAudioFeatures, type AudioFeatures } from '@/lib/audio/features';
+import { type SpeechSegment } from '@/lib/audio/vad';
+import { toEmotionResult, type EmotionClassifier, type EmotionResult } from './classifier';
+
+// Concatenate the samples that fall inside the given segments
+export const extractSegments = (data: Float32Array, sampleRate: number, segments: SpeechSegment[]): Float32Array => {
+  const ranges = segments.map(segment => [
+    Math.max(0, Math.floor(segment.start * sampleRate)),
+    Math.min(data.length, Math.floor(segment.end * sampleRate))
+  ]);
+  const result = new Float32Array(ranges.reduce((total, [from, to]) => total + Math.max(0, to - from), 0));
+
+  let offset = 0;
+  for (const [from, to] of ranges) {
+    if (to <= from) continue;
+    result.set(data.subarray(from, to), offset);
+    offset += to - from;
+  }
+
+  return result;
+};
+
+// Features of the speech only, skipping room noise outside detected segments
+export const extractSpeechFeatures = (
+  samples: Float32Array,
+  sampleRate: number,
+  speechSegments: SpeechSegment[] = [],
+  onProgress?: (fraction: number) => void
+): AudioFeatures => {
+  const speech = speechSegments.length ? extractSegments(samples, sampleRate, speechSegments) : samples;
+  return extractAudioFeatures(speech, sampleRate, onProgress);
+};
+
+export const detectEmotion = async (
+  samples: Float32Array,
+  sampleRate: number,
+  classifier: EmotionClassifier,
+  speechSegments: SpeechSegment[] = []
+): Promise<EmotionResult> => {
+  const features = extractSpeechFeatures(samples, sampleRate, speechSegments);
+  return toEmotionResult(await classifier.classify(features));
+};
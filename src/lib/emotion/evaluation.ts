@@ -0,0 +1,84 @@
+// Scoring a classifier against labeled clips: accuracy, per-class precision
+// and recall, and the confusion matrix. Pure functions so the same report can
+// be produced in the browser or by the Node harness (scripts/evaluate-emotion.ts).
+
+import { type Mood } from '@/components/MoodSelector';
+import { MOOD_LABELS, MOODS } from './scores';
+
+export type LabeledPrediction = {
+  label: Mood;
+  predicted: Mood;
+};
+
+// Rows are the true labels, columns the predictions
+export type ConfusionMatrix = Record<Mood, Record<Mood, number>>;
+
+export type ClassMetrics = {
+  // null when the class was never predicted (precision) or never present (recall)
+  precision: number | null;
+  recall: number | null;
+  // Number of clips with this true label
+  support: number;
+};
+
+export type EvaluationReport = {
+  classifier: string;
+  total: number;
+  accuracy: number;
+  perClass: Record<Mood, ClassMetrics>;
+  confusionMatrix: ConfusionMatrix;
+};
+
+const emptyRow = (): Record<Mood, number> => Object.fromEntries(MOODS.map(mood => [mood, 0])) as Record<Mood, number>;
+
+export const evaluatePredictions = (predictions: LabeledPrediction[], classifier: string): EvaluationReport => {
+  const confusionMatrix = Object.fromEntries(MOODS.map(mood => [mood, emptyRow()])) as ConfusionMatrix;
+  predictions.forEach(({ label, predicted }) => {
+    confusionMatrix[label][predicted] += 1;
+  });
+
+  const correct = MOODS.reduce((total, mood) => total + confusionMatrix[mood][mood], 0);
+  const perClass = Object.fromEntries(MOODS.map(mood => {
+    const support = MOODS.reduce((total, predicted) => total + confusionMatrix[mood][predicted], 0);
+    const predictedCount = MOODS.reduce((total, label) => total + confusionMatrix[label][mood], 0);
+    const truePositives = confusionMatrix[mood][mood];
+    return [mood, {
+      precision: predictedCount ? truePositives / predictedCount : null,
+      recall: support ? truePositives / support : null,
+      support,
+    }];
+  })) as Record<Mood, ClassMetrics>;
+
+  return {
+    classifier,
+    total: predictions.length,
+    accuracy: predictions.length ? correct / predictions.length : 0,
+    perClass,
+    confusionMatrix,
+  };
+};
+
+const formatRatio = (value: number | null) => value === null ? '-' : value.toFixed(3);
+
+// Plain-text rendering for terminals and CI logs
+export const formatEvaluationReport = (report: EvaluationReport): string => {
+  const labelWidth = Math.max(...MOODS.map(mood => MOOD_LABELS[mood].length), 'actual \\ predicted'.length);
+  const cellWidth = Math.max(...MOODS.map(mood => MOOD_LABELS[mood].length), 9);
+  const row = (label: string, cells: string[]) => [label.padEnd(labelWidth), ...cells.map(cell => cell.padStart(cellWidth))].join('  ');
+
+  return [
+    `Classifier: ${report.classifier}`,
+    `Clips: ${report.total}`,
+    `Accuracy: ${report.accuracy.toFixed(3)}`,
+    '',
+    row('', ['precision', 'recall', 'support']),
+    ...MOODS.map(mood => row(MOOD_LABELS[mood], [
+      formatRatio(report.perClass[mood].precision),
+      formatRatio(report.perClass[mood].recall),
+      String(report.perClass[mood].support),
+    ])),
+    '',
+    row('actual \\ predicted', MOODS.map(mood => MOOD_LABELS[mood])),
+    ...MOODS.map(label => row(MOOD_LABELS[label], MOODS.map(predicted => String(report.confusionMatrix[label][predicted])))),
+  ].join('\n');
+};
@@ -0,0 +1,97 @@
+// Why a mood was suggested: the rule measures next to their thresholds, with
+// the ones that separated the winner from the runner-up marked as decisive.
+// For ONNX models the same measures are listed for reference only, since a
+// model's weights can't be read back as thresholds.
+
+import { type Mood } from '@/components/MoodSelector';
+import { type AudioFeatures } from '@/lib/audio/features';
+import { calibrateFeatures, type FeatureCalibration } from './calibration';
+import { type ClassifierBackend, type EmotionResult } from './classifier';
+import { measureRules, MOOD_RULES, RULE_THRESHOLDS, ruleMembership, type RuleMeasure } from './heuristic';
+import { rankMoods } from './scores';
+
+export type MeasureExplanation = {
+  measure: RuleMeasure;
+  // As measured, and as compared against the threshold (after calibration)
+  rawValue: number;
+  value: number;
+  threshold: number;
+  // How far the value is on the high side of the threshold (0-1)
+  membership: number;
+  // Side the suggested mood needs, null when its rule ignores this measure
+  required: 'high' | 'low' | null;
+  // Whether the measure landed on the required side
+  supports: boolean;
+  // The suggested mood and the runner-up need opposite sides here
+  decisive: boolean;
+};
+
+export type FeatureReading = {
+  label: string;
+  value: string;
+};
+
+export type EmotionExplanation = {
+  // 'rules' when the thresholds made the decision, 'model' when an ONNX model did
+  basis: 'rules' | 'model';
+  mood: Mood;
+  runnerUp: Mood;
+  isCalibrated: boolean;
+  measures: MeasureExplanation[];
+  // Further measurements shown for context; no rule reads them
+  readings: FeatureReading[];
+};
+
+export const MEASURE_LABELS: Record<RuleMeasure, string> = {
+  loudness: "Energy",
+  brightness: "Spectral brightness",
+  liveliness: "Pitch variation",
+};
+
+export const formatMeasure = (measure: RuleMeasure, value: number): string => {
+  if (measure === 'loudness') return `${value.toFixed(1)} dB`;
+  if (measure === 'brightness') return `${Math.round(value)} Hz`;
+  return `${Math.round(value * 100)}%`;
+};
+
+export const explainEmotion = (
+  features: AudioFeatures,
+  result: EmotionResult,
+  backend: ClassifierBackend,
+  calibration: FeatureCalibration | null
+): EmotionExplanation => {
+  const rawMeasures = measureRules(features);
+  const measures = calibration ? measureRules(calibrateFeatures(features, calibration)) : rawMeasures;
+  const [, runnerUp] = rankMoods(result.scores);
+  const winnerRules = MOOD_RULES[result.mood];
+  const runnerUpRules = MOOD_RULES[runnerUp.mood];
+
+  return {
+    basis: backend === 'onnx' ? 'model' : 'rules',
+    mood: result.mood,
+    runnerUp: runnerUp.mood,
+    isCalibrated: calibration !== null,
+    measures: (Object.keys(RULE_THRESHOLDS) as RuleMeasure[]).map(measure => {
+      const membership = ruleMembership(measure, measures[measure]);
+      const required = winnerRules[measure] ?? null;
+      const opposing = runnerUpRules[measure];
+      return {
+        measure,
+        rawValue: rawMeasures[measure],
+        value: measures[measure],
+        threshold: RULE_THRESHOLDS[measure].threshold,
+        membership,
+        required,
+        supports: required === 'high' ? membership >= 0.5 : required === 'low' ? membership < 0.5 : false,
+        decisive: backend !== 'onnx' && required !== null && opposing !== undefined && opposing !== required,
+      };
+    }),
+    readings: [
+      { label: "Average pitch", value: features.pitch.mean > 0 ? `${Math.round(features.pitch.mean)} Hz` : "unvoiced" },
+      { label: "Voiced share", value: `${Math.round(features.voicedRatio * 100)}%` },
+      { label: "Tempo", value: `${features.onsetRate.toFixed(1)} onsets/s` },
+      { label: "Spectral flux", value: features.spectralFlux.mean.toFixed(3) },
+      { label: "Zero-crossing rate", value: features.zeroCrossingRate.mean.toFixed(3) },
+    ],
+  };
+};
@@ -0,0 +1,123 @@
+// Combining mood scores from several signals into one suggestion: the voice
+// analysis, a typed description and the mood picked last session. Each source
+// gives a per-mood score vector; the fused scores are their weighted average
+// over the sources that are present, so they stay normalised.
+
+import { type Mood } from '@/components/MoodSelector';
+import { toEmotionResult, type EmotionResult } from './classifier';
+import { MOODS, normalizeScores, rankMoods, type MoodScores } from './scores';
+
+export type EmotionSource = 'audio' | 'text' | 'previous';
+
+export const EMOTION_SOURCES: EmotionSource[] = ['audio', 'text', 'previous'];
+
+export const SOURCE_LABELS: Record<EmotionSource, string> = {
+  audio: "Voice",
+  text: "Description",
+  previous: "Last session",
+};
+
+// The previous session only nudges a suggestion; on its own it doesn't make one
+const EVIDENCE_SOURCES: EmotionSource[] = ['audio', 'text'];
+
+export type SourceScores = Partial<Record<EmotionSource, MoodScores>>;
+
+// Relative weights; only the sources present are normalised against each other
+export type FusionWeights = Record<EmotionSource, number>;
+
+export type SourceContribution = {
+  source: EmotionSource;
+  // The source's own top mood
+  mood: Mood;
+  // Share of the total weight among the sources present (0-1)
+  share: number;
+  // What the source added to the fused score of the suggested mood
+  support: number;
+};
+
+export type FusedEmotion = {
+  result: EmotionResult;
+  contributions: SourceContribution[];
+};
+
+// null when no voice or text scores are present, or all present sources weigh zero
+export const fuseEmotionScores = (sources: SourceScores, weights: FusionWeights): FusedEmotion | null => {
+  if (!EVIDENCE_SOURCES.some(source => sources[source])) return null;
+
+  const present = EMOTION_SOURCES.filter(source => sources[source] && weights[source] > 0);
+  const totalWeight = present.reduce((total, source) => total + weights[source], 0);
+  if (totalWeight <= 0) return null;
+
+  const fused = Object.fromEntries(MOODS.map(mood => [
+    mood,
+    present.reduce((total, source) => total + sources[source][mood] * weights[source], 0) / totalWeight,
+  ])) as MoodScores;
+  const result = toEmotionResult(normalizeScores(fused));
+
+  return {
+    result,
+    contributions: present.map(source => {
+      const share = weights[source] / totalWeight;
+      return {
+        source,
+        mood: rankMoods(sources[source])[0].mood,
+        share,
+        support: share * sources[source][result.mood],
+      };
+    }),
+  };
+};
+
+// A picked mood as a score vector
+export const moodToScores = (mood: Mood): MoodScores =>
+  normalizeScores(Object.fromEntries(MOODS.map(item => [item, item === mood ? 1 : 0])) as MoodScores);
+
+export type FusionSettings = {
+  weights: FusionWeights;
+};
+
+export const DEFAULT_FUSION_SETTINGS: FusionSettings = {
+  weights: { audio: 0.6, text: 0.3, previous: 0.1 },
+};
+
+const STORAGE_KEY = 'audio-emotion-scapes:fusion-settings';
+
+export const loadFusionSettings = (): FusionSettings => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (!stored) return DEFAULT_FUSION_SETTINGS;
+    const parsed = JSON.parse(stored) as Partial<FusionSettings>;
+    return { weights: { ...DEFAULT_FUSION_SETTINGS.weights, ...parsed.weights } };
+  } catch (error) {
+    console.error("Error loading fusion settings:", error);
+    return DEFAULT_FUSION_SETTINGS;
+  }
+};
+
+export const saveFusionSettings = (settings: FusionSettings) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.error("Error saving fusion settings:", error);
+  }
+};
+
+const PREVIOUS_MOOD_KEY = 'audio-emotion-scapes:previous-mood';
+
+export const loadPreviousMood = (): Mood | null => {
+  try {
+    const stored = localStorage.getItem(PREVIOUS_MOOD_KEY);
+    return MOODS.includes(stored as Mood) ? stored as Mood : null;
+  } catch (error) {
+    console.error("Error loading previous mood:", error);
+    return null;
+  }
+};
+
+export const savePreviousMood = (mood: Mood) => {
+  try {
+    localStorage.setItem(PREVIOUS_MOOD_KEY, mood);
+  } catch (error) {
+    console.error("Error saving previous mood:", error);
+  }
+};
@@ -0,0 +1,106 @@
+// Rule-based emotion classification on top of the extracted acoustic features.
+// The result is a pure function of the features; variation only comes from
+// the opt-in demo noise, which is seeded so it can be replayed.
+
+import { type Mood } from '@/components/MoodSelector';
+import { type AudioFeatures } from '@/lib/audio/features';
+import { toEmotionResult, type EmotionClassifier, type EmotionResult } from './classifier';
+import { MOODS, normalizeScores, type MoodScores } from './scores';
+
+export type ClassifyOptions = {
+  // Seed for the demo noise; leave unset for plain deterministic output
+  demoSeed?: number | null;
+};
+
+// The three measures the rules are built on
+export type RuleMeasure = 'loudness' | 'brightness' | 'liveliness';
+
+export type RuleThreshold = {
+  // Value around which the measure turns from low to high
+  threshold: number;
+  // Width of the soft threshold, in the units of the measure
+  spread: number;
+};
+
+export const RULE_THRESHOLDS: Record<RuleMeasure, RuleThreshold> = {
+  // dBFS of the mean frame RMS: quiet to loud
+  loudness: { threshold: -20, spread: 4 },
+  // Spectral centroid in Hz: dark to bright
+  brightness: { threshold: 1500, spread: 300 },
+  // Pitch standard deviation relative to its mean: flat to lively
+  liveliness: { threshold: 0.15, spread: 0.05 },
+};
+// Which side of each threshold a mood needs; measures it doesn't list don't matter to it.
+// Loud + bright = energetic (lively pitch) or angry (flat pitch)
+// Loud + dark = happy
+// Quiet + bright = sad
+// Quiet + dark = calm
+export const MOOD_RULES: Record<Mood, Partial<Record<RuleMeasure, 'high' | 'low'>>> = {
+  energetic: { loudness: 'high', brightness: 'high', liveliness: 'high' },
+  angry: { loudness: 'high', brightness: 'high', liveliness: 'low' },
+  happy: { loudness: 'high', brightness: 'low' },
+  sad: { loudness: 'low', brightness: 'high' },
+  calm: { loudness: 'low', brightness: 'low' },
+};
+
+// Maximum relative change applied to each score in demo mode
+const DEMO_JITTER = 0.6;
+
+const sigmoid = (value: number) => 1 / (1 + Math.exp(-value));
+
+// Small, fast PRNG (mulberry32); the same seed always gives the same sequence
+const createSeededRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+export const measureRules = (features: AudioFeatures): Record<RuleMeasure, number> => ({
+  loudness: 20 * Math.log10(Math.max(features.rms.mean, 1e-6)),
+  brightness: features.spectralCentroid.mean,
+  liveliness: features.pitch.mean > 0 ? features.pitch.std / features.pitch.mean : 0,
+});
+
+// How far a value is on the high side of its threshold (0-1)
+export const ruleMembership = (measure: RuleMeasure, value: number) => {
+  const { threshold, spread } = RULE_THRESHOLDS[measure];
+  return sigmoid((value - threshold) / spread);
+};
+
+// Soft version of the loud/bright/lively rules: each rule is a product of
+// memberships, so the five scores always add up to 1
+export const scoreMoods = (features: AudioFeatures): MoodScores => {
+  const measures = measureRules(features);
+
+  return Object.fromEntries(MOODS.map(mood => [
+    mood,
+    Object.entries(MOOD_RULES[mood]).reduce((score, [measure, side]) => {
+      const high = ruleMembership(measure as RuleMeasure, measures[measure as RuleMeasure]);
+      return score * (side === 'high' ? high : 1 - high);
+    }, 1),
+  ])) as MoodScores;
+};
+
+export const classifyEmotion = (features: AudioFeatures, options: ClassifyOptions = {}): EmotionResult => {
+  let scores = scoreMoods(features);
+
+  if (options.demoSeed !== undefined && options.demoSeed !== null) {
+    const random = createSeededRandom(options.demoSeed);
+    scores = normalizeScores(Object.fromEntries(
+      MOODS.map(mood => [mood, scores[mood] * (1 + (random() - 0.5) * 2 * DEMO_JITTER)])
+    ) as MoodScores);
+  }
+
+  return toEmotionResult(scores);
+};
+
+export const createHeuristicClassifier = (options: ClassifyOptions = {}): EmotionClassifier => ({
+  backend: 'heuristic',
+  name: 'Built-in rules',
+  classify: async (features) => classifyEmotion(features, options).scores,
+});
@@ -0,0 +1,92 @@
+// Rolling emotion estimate while recording. The recorder pushes the newest
+// audio as it arrives; every hop the last few seconds are classified, and the
+// running total over the take is the final distribution, so it is ready the
+// moment recording stops.
+
+import { extractAudioFeatures } from '@/lib/audio/features';
+import { toEmotionResult, type EmotionClassifier, type EmotionResult } from './classifier';
+import { MOODS, normalizeScores, type MoodScores } from './scores';
+
+// Seconds of audio behind each estimate, and between two estimates
+export const LIVE_WINDOW_DURATION = 3;
+export const LIVE_HOP_DURATION = 1;
+
+// Windows quieter than this (linear RMS) hold no usable voice and are skipped
+const LIVE_SILENCE_RMS = 0.003;
+
+export type LiveEmotionEstimator = {
+  // Append the newest samples; they are copied
+  push: (samples: Float32Array) => void;
+  // Distribution over every estimate so far, null before the first one
+  getOverall: () => EmotionResult | null;
+};
+
+const emptyScores = (): MoodScores => Object.fromEntries(MOODS.map(mood => [mood, 0])) as MoodScores;
+
+// `onEstimate` receives each rolling result, or null while the input is silent
+export const createLiveEmotionEstimator = (
+  sampleRate: number,
+  classifier: EmotionClassifier,
+  onEstimate: (result: EmotionResult | null) => void
+): LiveEmotionEstimator => {
+  const recent = new Float32Array(Math.round(LIVE_WINDOW_DURATION * sampleRate));
+  const hopSamples = Math.round(LIVE_HOP_DURATION * sampleRate);
+  let filled = 0;
+  let sinceEstimate = 0;
+  let isClassifying = false;
+  const totals = emptyScores();
+  let estimateCount = 0;
+
+  const estimate = async () => {
+    isClassifying = true;
+    try {
+      const features = extractAudioFeatures(recent.slice(recent.length - filled), sampleRate);
+      if (features.rms.mean < LIVE_SILENCE_RMS) {
+        onEstimate(null);
+        return;
+      }
+
+      const scores = await classifier.classify(features);
+      MOODS.forEach(mood => {
+        totals[mood] += scores[mood];
+      });
+      estimateCount += 1;
+      onEstimate(toEmotionResult(scores));
+    } catch (error) {
+      console.error("Error estimating live emotion:", error);
+    } finally {
+      isClassifying = false;
+    }
+  };
+
+  return {
+    push: (samples) => {
+      // Keep only the newest window of audio, oldest first
+      const incoming = samples.length > recent.length ? samples.subarray(samples.length - recent.length) : samples;
+      recent.copyWithin(0, incoming.length);
+      recent.set(incoming, recent.length - incoming.length);
+      filled = Math.min(recent.length, filled + incoming.length);
+      sinceEstimate += samples.length;
+
+      // A slow classifier skips hops rather than queueing them
+      if (sinceEstimate >= hopSamples && !isClassifying) {
+        sinceEstimate = 0;
+        estimate();
+      }
+    },
+    getOverall: () => estimateCount ? toEmotionResult(normalizeScores(totals)) : null,
+  };
+};
+
+// Several takes joined into one: each estimate counts by the length of its take
+export const mergeLiveEstimates = (parts: { result: EmotionResult | null; duration: number }[]): EmotionResult | null => {
+  if (!parts.length || parts.some(part => !part.result)) return null;
+
+  const totals = emptyScores();
+  parts.forEach(({ result, duration }) => {
+    MOODS.forEach(mood => {
+      totals[mood] += result.scores[mood] * duration;
+    });
+  });
+  return toEmotionResult(normalizeScores(totals));
+};
@@ -0,0 +1,33 @@
+import { openDatabase, requestToPromise, transactionDone, CLASSIFIER_MODEL_STORE } from '@/lib/idb';
+
+// The imported ONNX model is kept in IndexedDB so it survives reloads.
+// Only one model is kept; importing another replaces it.
+
+export type StoredClassifierModel = {
+  name: string;
+  data: ArrayBuffer;
+  importedAt: number;
+};
+
+const ACTIVE_MODEL_ID = 'active';
+
+export const saveClassifierModel = async (name: string, data: ArrayBuffer) => {
+  const db = await openDatabase();
+  const transaction = db.transaction(CLASSIFIER_MODEL_STORE, 'readwrite');
+  transaction.objectStore(CLASSIFIER_MODEL_STORE).put({ id: ACTIVE_MODEL_ID, name, data, importedAt: Date.now() });
+  await transactionDone(transaction);
+};
+
+export const loadClassifierModel = async (): Promise<StoredClassifierModel | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(CLASSIFIER_MODEL_STORE, 'readonly');
+  const stored = await requestToPromise<StoredClassifierModel | undefined>(transaction.objectStore(CLASSIFIER_MODEL_STORE).get(ACTIVE_MODEL_ID));
+  return stored ?? null;
+};
+
+export const deleteClassifierModel = async () => {
+  const db = await openDatabase();
+  const transaction = db.transaction(CLASSIFIER_MODEL_STORE, 'readwrite');
+  transaction.objectStore(CLASSIFIER_MODEL_STORE).delete(ACTIVE_MODEL_ID);
+  await transactionDone(transaction);
+};
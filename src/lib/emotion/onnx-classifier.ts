@@ -0,0 +1,73 @@
+// Emotion classifier backed by a user-supplied ONNX model, run with
+// onnxruntime-web's WASM backend. The runtime is loaded on first use so the
+// default heuristic path doesn't pay for it.
+//
+// Model contract:
+// - first input: float32 tensor of shape [1, FEATURE_NAMES.length], the
+//   values of toFeatureVector in FEATURE_NAMES order
+// - first output: MOODS.length values in MOODS order, either probabilities
+//   or logits (softmax is applied when they don't already form a distribution)
+
+import { FEATURE_NAMES, toFeatureVector } from '@/lib/audio/features';
+import { type EmotionClassifier } from './classifier';
+import { MOODS, normalizeScores, type MoodScores } from './scores';
+
+export class OnnxModelError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'OnnxModelError';
+  }
+}
+
+const softmax = (values: number[]): number[] => {
+  const max = Math.max(...values);
+  const exps = values.map(value => Math.exp(value - max));
+  const total = exps.reduce((sum, value) => sum + value, 0);
+  return exps.map(value => value / total);
+};
+
+const isDistribution = (values: number[]) => {
+  const total = values.reduce((sum, value) => sum + value, 0);
+  return values.every(value => value >= 0) && Math.abs(total - 1) < 1e-3;
+};
+
+export const createOnnxClassifier = async (model: ArrayBuffer, name: string): Promise<EmotionClassifier> => {
+  const ort = await import('onnxruntime-web/wasm');
+  // Threads need cross-origin isolation, which the app doesn't set up
+  ort.env.wasm.numThreads = 1;
+
+  let session: Awaited<ReturnType<typeof ort.InferenceSession.create>>;
+  try {
+    session = await ort.InferenceSession.create(new Uint8Array(model), { executionProviders: ['wasm'] });
+  } catch (error) {
+    console.error("Error loading ONNX model:", error);
+    throw new OnnxModelError("The file could not be loaded as an ONNX model.");
+  }
+
+  const [inputName] = session.inputNames;
+  const [outputName] = session.outputNames;
+
+  return {
+    backend: 'onnx',
+    name,
+    classify: async (features) => {
+      const input = new ort.Tensor('float32', Float32Array.from(toFeatureVector(features)), [1, FEATURE_NAMES.length]);
+
+      let output: number[];
+      try {
+        const results = await session.run({ [inputName]: input });
+        output = Array.from(results[outputName].data as Float32Array, Number);
+      } catch (error) {
+        console.error("Error running ONNX model:", error);
+        throw new OnnxModelError(`The model could not be run. It must take ${FEATURE_NAMES.length} float features as input.`);
+      }
+
+      if (output.length !== MOODS.length) {
+        throw new OnnxModelError(`The model returned ${output.length} values; expected one per mood (${MOODS.join(', ')}).`);
+      }
+
+      const probabilities = isDistribution(output) ? output : softmax(output);
+      return normalizeScores(Object.fromEntries(MOODS.map((mood, index) => [mood, probabilities[index]])) as MoodScores);
+    },
+  };
+};
@@ -0,0 +1,10 @@
+// Mood colours, shared by the Tailwind theme (`moods-*` classes) and by
+// charts and canvases that need the raw values.
+// Kept free of path aliases so tailwind.config.ts can import it.
+export const MOOD_COLORS = {
+  happy: '#FFD700', // Gold
+  calm: '#4682B4', // Steel Blue
+  energetic: '#FF4500', // Orange Red
+  sad: '#6A5ACD', // Slate Blue
+  angry: '#8B0000', // Dark Red
+};
@@ -0,0 +1,36 @@
+// Per-mood score vectors shared by every emotion source
+
+import { type Mood } from '@/components/MoodSelector';
+
+// One score per mood; scores are non-negative and sum to 1
+export type MoodScores = Record<Mood, number>;
+
+export type RankedMood = {
+  mood: Mood;
+  score: number;
+};
+
+export const MOODS: Mood[] = ['happy', 'calm', 'energetic', 'sad', 'angry'];
+
+export const MOOD_LABELS: Record<Mood, string> = {
+  happy: 'Happy',
+  calm: 'Calm',
+  energetic: 'Energetic',
+  sad: 'Sad',
+  angry: 'Angry',
+};
+
+// Scale raw non-negative weights to sum to 1; all-zero input becomes uniform
+export const normalizeScores = (weights: Record<Mood, number>): MoodScores => {
+  const total = MOODS.reduce((sum, mood) => sum + Math.max(0, weights[mood]), 0);
+  return Object.fromEntries(
+    MOODS.map(mood => [mood, total > 0 ? Math.max(0, weights[mood]) / total : 1 / MOODS.length])
+  ) as MoodScores;
+};
+
+// Highest score first; ties keep the MOODS order so the ranking is stable
+export const rankMoods = (scores: MoodScores): RankedMood[] => {
+  return MOODS
+    .map(mood => ({ mood, score: scores[mood] }))
+    .sort((a, b) => b.score - a.score);
+};
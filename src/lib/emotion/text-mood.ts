@@ -0,0 +1,175 @@
+// Offline mood scoring for a typed description. Words are looked up in a
+// small built-in lexicon, with intensifiers, softeners and negation applied
+// to the word that follows them; the result uses the same per-mood score
+// format as the acoustic detector.
+
+import { type Mood } from '@/components/MoodSelector';
+import { MOODS, normalizeScores, type MoodScores } from './scores';
+
+type LexiconEntry = Partial<Record<Mood, number>>;
+
+// Mood words; the weight is how strongly the word points at each mood
+const MOOD_WORDS: Record<Mood, Record<string, number>> = {
+  happy: {
+    happy: 1, happiness: 1, glad: 1, joy: 1, joyful: 1, cheerful: 1, delighted: 1.5, pleased: 0.8,
+    content: 0.6, grateful: 0.8, thankful: 0.8, great: 0.7, good: 0.5, wonderful: 1, awesome: 0.8,
+    fantastic: 1, amazing: 0.8, love: 0.8, lovely: 0.8, smile: 0.8, smiling: 0.8, laugh: 0.8,
+    laughing: 0.8, fun: 0.7, hopeful: 0.7, optimistic: 0.8, proud: 0.7, blessed: 0.8, sunny: 0.6,
+    upbeat: 0.8, elated: 1.5, thrilled: 1, ecstatic: 1.5, yay: 1,
+  },
+  calm: {
+    calm: 1, relaxed: 1, relaxing: 0.8, peaceful: 1, peace: 0.8, serene: 1, tranquil: 1, chill: 0.8,
+    mellow: 0.8, quiet: 0.6, gentle: 0.6, rested: 0.7, comfortable: 0.6, cozy: 0.7, balanced: 0.7,
+    centered: 0.7, easy: 0.4, soothing: 0.8, soothed: 0.8, still: 0.3, sleepy: 0.5, lazy: 0.4,
+    unwind: 0.8, unwinding: 0.8, meditative: 1, okay: 0.3, fine: 0.3,
+  },
+  energetic: {
+    energetic: 1, energized: 1, energy: 0.7, excited: 1, exciting: 0.8, pumped: 1.2, hyped: 1.2,
+    motivated: 0.9, alive: 0.7, active: 0.7, lively: 0.9, buzzing: 1, wired: 0.8, restless: 0.5,
+    eager: 0.8, ready: 0.5, dance: 0.8, dancing: 0.8, party: 0.8, run: 0.4, running: 0.4, fast: 0.5,
+    adrenaline: 1, unstoppable: 1, powerful: 0.8, strong: 0.5, fired: 0.6,
+  },
+  sad: {
+    sad: 1, sadness: 1, unhappy: 1, down: 0.6, depressed: 1.5, depressing: 1, miserable: 1.5,
+    lonely: 1, alone: 0.6, heartbroken: 1.5, hurt: 0.8, crying: 1, cry: 0.9, tears: 0.9, grief: 1.5,
+    grieving: 1.5, gloomy: 1, blue: 0.6, hopeless: 1.2, empty: 0.8, tired: 0.5, exhausted: 0.6,
+    disappointed: 0.9, sorry: 0.5, miss: 0.6, missing: 0.6, lost: 0.6, low: 0.5, melancholy: 1,
+    bad: 0.5, awful: 0.6, terrible: 0.6,
+  },
+  angry: {
+    angry: 1, anger: 1, mad: 1, furious: 1.5, rage: 1.5, raging: 1.5, annoyed: 0.8, annoying: 0.7,
+    irritated: 0.8, frustrated: 0.9, frustrating: 0.8, pissed: 1.2, outraged: 1.5, hate: 1.2,
+    hateful: 1.2, resentful: 1, bitter: 0.8, fed: 0.3, livid: 1.5, enraged: 1.5, hostile: 1,
+    stressed: 0.6, tense: 0.5, unfair: 0.7, upset: 0.6, sick: 0.3,
+  },
+};
+
+// Negating a mood word points at its opposite instead ("not happy" reads as sad)
+const NEGATED_MOOD: Record<Mood, Mood> = {
+  happy: 'sad',
+  sad: 'calm',
+  calm: 'angry',
+  angry: 'calm',
+  energetic: 'calm',
+};
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'nothing', 'hardly', 'barely', 'without',
+  "don't", "doesn't", "didn't", "isn't", "wasn't", "aren't", "weren't", "can't", "couldn't", "won't", "haven't",
+]);
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, really: 1.5, so: 1.4, extremely: 2, super: 1.5, incredibly: 2, totally: 1.5,
+  absolutely: 1.8, completely: 1.5, truly: 1.4, too: 1.3,
+};
+const SOFTENERS: Record<string, number> = {
+  slightly: 0.5, somewhat: 0.6, bit: 0.5, little: 0.6, kinda: 0.6, fairly: 0.7, rather: 0.8,
+};
+// Punctuation that ends a clause, and with it any pending negation or modifier
+const CLAUSE_BREAK = /^[.,;:!?]$/;
+
+const EMOJI: Record<string, LexiconEntry> = {
+  '😀': { happy: 1 }, '😄': { happy: 1 }, '😊': { happy: 1 }, '🙂': { happy: 0.6 }, '😁': { happy: 1 },
+  '😌': { calm: 1 }, '🧘': { calm: 1 }, '😴': { calm: 0.6 },
+  '⚡': { energetic: 1 }, '🔥': { energetic: 1 }, '💪': { energetic: 0.8 }, '🎉': { energetic: 0.7, happy: 0.5 },
+  '😢': { sad: 1 }, '😭': { sad: 1.5 }, '🙁': { sad: 0.8 }, '☹️': { sad: 0.8 }, '💔': { sad: 1.2 },
+  '😠': { angry: 1 }, '😡': { angry: 1.5 }, '🤬': { angry: 1.5 },
+};
+
+// How many words after a negation it still applies to
+const NEGATION_SCOPE = 3;
+// Each exclamation mark adds this much energy, up to EXCLAMATION_LIMIT marks
+const EXCLAMATION_WEIGHT = 0.25;
+const EXCLAMATION_LIMIT = 3;
+// Added to every mood before normalising so a single word can't claim certainty
+const SMOOTHING = 0.1;
+
+// Word → mood weights, built once from the per-mood lists
+const LEXICON: Record<string, LexiconEntry> = {};
+MOODS.forEach(mood => {
+  Object.entries(MOOD_WORDS[mood]).forEach(([word, weight]) => {
+    LEXICON[word] = { ...LEXICON[word], [mood]: weight };
+  });
+});
+
+// Exact form first, then a few common inflections stripped
+const lookUp = (word: string): LexiconEntry | null => {
+  if (LEXICON[word]) return LEXICON[word];
+  for (const suffix of ['ness', 'ing', 'ed', 'ly', 's']) {
+    if (word.length > suffix.length + 2 && word.endsWith(suffix) && LEXICON[word.slice(0, -suffix.length)]) {
+      return LEXICON[word.slice(0, -suffix.length)];
+    }
+  }
+  return null;
+};
+
+export type TextMoodMatch = {
+  word: string;
+  mood: Mood;
+  weight: number;
+  negated: boolean;
+};
+
+export type TextMoodAnalysis = {
+  // null when nothing in the text carries a mood
+  scores: MoodScores | null;
+  // Lexicon hits in reading order
+  matches: TextMoodMatch[];
+};
+
+export const analyzeTextMood = (text: string): TextMoodAnalysis => {
+  const totals = Object.fromEntries(MOODS.map(mood => [mood, 0])) as Record<Mood, number>;
+  const matches: TextMoodMatch[] = [];
+
+  const add = (word: string, entry: LexiconEntry, multiplier: number, negated: boolean) => {
+    Object.entries(entry).forEach(([mood, weight]) => {
+      const target = negated ? NEGATED_MOOD[mood as Mood] : mood as Mood;
+      totals[target] += weight * multiplier;
+      matches.push({ word, mood: target, weight: weight * multiplier, negated });
+    });
+  };
+
+  const tokens = text.toLowerCase().replace(/[’‘]/g, "'").match(/[a-z']+|[.,;:!?]/g) ?? [];
+  let negationLeft = 0;
+  let multiplier = 1;
+  tokens.forEach(word => {
+    if (CLAUSE_BREAK.test(word)) {
+      negationLeft = 0;
+      multiplier = 1;
+      return;
+    }
+    if (NEGATIONS.has(word)) {
+      negationLeft = NEGATION_SCOPE;
+      return;
+    }
+    if (INTENSIFIERS[word] || SOFTENERS[word]) {
+      multiplier *= INTENSIFIERS[word] ?? SOFTENERS[word];
+      return;
+    }
+
+    const entry = lookUp(word);
+    if (entry) {
+      add(word, entry, multiplier, negationLeft > 0);
+      negationLeft = 0;
+    } else if (negationLeft > 0) {
+      negationLeft--;
+    }
+    multiplier = 1;
+  });
+
+  Object.entries(EMOJI).forEach(([emoji, entry]) => {
+    const count = text.split(emoji).length - 1;
+    if (count) add(emoji, entry, count, false);
+  });
+
+  const exclamations = Math.min(EXCLAMATION_LIMIT, (text.match(/!/g) ?? []).length);
+  // Punctuation alone doesn't make a mood
+  if (exclamations && matches.length) {
+    add('!'.repeat(exclamations), { energetic: EXCLAMATION_WEIGHT }, exclamations, false);
+  }
+
+  if (!matches.length) return { scores: null, matches };
+  return {
+    scores: normalizeScores(Object.fromEntries(MOODS.map(mood => [mood, totals[mood] + SMOOTHING])) as MoodScores),
+    matches,
+  };
+};
@@ -0,0 +1,78 @@
+// Emotion over time: the recording is cut into fixed windows and each window
+// is classified on its own, so mood changes within a take become visible.
+
+import { type Mood } from '@/components/MoodSelector';
+import { extractAudioFeatures } from '@/lib/audio/features';
+import { type SpeechSegment } from '@/lib/audio/vad';
+import { toEmotionResult, type EmotionClassifier } from './classifier';
+import { MOODS, type MoodScores } from './scores';
+
+export type EmotionWindow = {
+  // Seconds from the start of the recording
+  start: number;
+  end: number;
+  // null when the window holds no detected speech
+  mood: Mood | null;
+  confidence: number;
+  scores: MoodScores | null;
+};
+
+export const MIN_TIMELINE_WINDOW = 2;
+export const MAX_TIMELINE_WINDOW = 5;
+export const DEFAULT_TIMELINE_WINDOW = 3;
+
+const overlapsSpeech = (start: number, end: number, segments: SpeechSegment[]) => {
+  return segments.some(segment => segment.start < end && segment.end > start);
+};
+
+// A trailing window shorter than half the window length is folded into the previous one
+export const computeEmotionTimeline = async (
+  samples: Float32Array,
+  sampleRate: number,
+  classifier: EmotionClassifier,
+  windowDuration = DEFAULT_TIMELINE_WINDOW,
+  speechSegments: SpeechSegment[] = [],
+  onProgress?: (fraction: number) => void
+): Promise<EmotionWindow[]> => {
+  const duration = samples.length / sampleRate;
+  const windowCount = Math.max(1, Math.round(duration / windowDuration));
+  const windows: EmotionWindow[] = [];
+
+  for (let index = 0; index < windowCount; index++) {
+    onProgress?.(index / windowCount);
+    const start = index * windowDuration;
+    const end = index === windowCount - 1 ? duration : start + windowDuration;
+
+    if (speechSegments.length && !overlapsSpeech(start, end, speechSegments)) {
+      windows.push({ start, end, mood: null, confidence: 0, scores: null });
+      continue;
+    }
+
+    const features = extractAudioFeatures(
+      samples.subarray(Math.floor(start * sampleRate), Math.floor(end * sampleRate)),
+      sampleRate
+    );
+    const { mood, confidence, scores } = toEmotionResult(await classifier.classify(features));
+    windows.push({ start, end, mood, confidence, scores });
+  }
+
+  return windows;
+};
+
+export const timelineToJSON = (timeline: EmotionWindow[]): string => {
+  return JSON.stringify(timeline, null, 2);
+};
+
+// One row per window; score columns are empty for windows without speech
+export const timelineToCSV = (timeline: EmotionWindow[]): string => {
+  const header = ['start', 'end', 'mood', 'confidence', ...MOODS].join(',');
+  const rows = timeline.map(entry => [
+    entry.start.toFixed(3),
+    entry.end.toFixed(3),
+    entry.mood ?? '',
+    entry.confidence.toFixed(4),
+    ...MOODS.map(mood => entry.scores ? entry.scores[mood].toFixed(4) : ''),
+  ].join(','));
+
+  return [header, ...rows].join('\n');
+};
@@ -0,0 +1,70 @@
+// Small promise wrapper around the app's IndexedDB database.
+// Every object store is declared here so schema upgrades live in one place.
+
+const DB_NAME = 'audio-emotion-scapes';
+const DB_VERSION = 3;
+
+export const RECORDING_SESSION_STORE = 'recording-sessions';
+export const RECORDING_CHUNK_STORE = 'recording-chunks';
+export const CLASSIFIER_MODEL_STORE = 'classifier-models';
+export const DATASET_SAMPLE_STORE = 'dataset-samples';
+
+// Each entry upgrades the schema from the previous version
+const migrations: ((db: IDBDatabase) => void)[] = [
+  (db) => {
+    db.createObjectStore(RECORDING_SESSION_STORE, { keyPath: 'id' });
+    const chunks = db.createObjectStore(RECORDING_CHUNK_STORE, { autoIncrement: true });
+    chunks.createIndex('sessionId', 'sessionId');
+  },
+  (db) => {
+    db.createObjectStore(CLASSIFIER_MODEL_STORE, { keyPath: 'id' });
+  },
+  (db) => {
+    db.createObjectStore(DATASET_SAMPLE_STORE, { keyPath: 'id' });
+  },
+];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!databasePromise) {
+    databasePromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          migrations[version](request.result);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+
+    // Allow a later call to retry if opening failed
+    databasePromise.catch(() => {
+      databasePromise = null;
+    });
+  }
+
+  return databasePromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const transactionDone = (transaction: IDBTransaction): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
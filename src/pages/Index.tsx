@@ -1,41 +1,198 @@
 
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Headphones, Mic, Share2 } from 'lucide-react';
 import AudioRecorder from '@/components/AudioRecorder';
+import AudioImporter from '@/components/AudioImporter';
+import WaveformEditor from '@/components/WaveformEditor';
 import MoodSelector, { type Mood } from '@/components/MoodSelector';
 import MusicGenerator from '@/components/MusicGenerator';
 import EmotionDetector from '@/components/EmotionDetector';
+import DatasetPanel from '@/components/DatasetPanel';
+import TextMoodInput from '@/components/TextMoodInput';
+import MoodFusionPanel from '@/components/MoodFusionPanel';
 import { toast } from 'sonner';
+import { type SpeechSegment } from '@/lib/audio/vad';
+import { type EmotionResult, type UncertainReason } from '@/lib/emotion/classifier';
+import { applyConfidenceFloor, UNCERTAIN_MESSAGES } from '@/lib/emotion/confidence';
+import { rankMoods, type MoodScores } from '@/lib/emotion/scores';
+import { nearestMood, type AffectPoint } from '@/lib/emotion/affect';
+import {
+  fuseEmotionScores,
+  loadPreviousMood,
+  moodToScores,
+  savePreviousMood,
+  type EmotionSource,
+  type SourceScores,
+} from '@/lib/emotion/fusion';
+import { useConfidenceFloor } from '@/hooks/use-confidence-floor';
+import { useFusionWeights } from '@/hooks/use-fusion-weights';
+import { useLabeledDataset } from '@/hooks/use-labeled-dataset';
+
+// The runner-up mood is only suggested when it scored at least this much
+const SECONDARY_MOOD_MIN_SCORE = 0.2;
+
+// How each signal is named in the suggestion toast
+const SUGGESTION_BASIS: Record<EmotionSource, string> = {
+  audio: 'voice',
+  text: 'description',
+  previous: 'last session',
+};
 
 const Index = () => {
   const [recordingBlob, setRecordingBlob] = useState<Blob | null>(null);
+  // Identifies the committed recording, e.g. as its labeled dataset sample
+  const [recordingId, setRecordingId] = useState<string | null>(null);
+  const [pendingRecording, setPendingRecording] = useState<Blob | null>(null);
+  // Estimate made while recording; it becomes the voice signal once the edit is committed
+  const [pendingLiveEmotion, setPendingLiveEmotion] = useState<EmotionResult | null>(null);
+  const [liveEmotion, setLiveEmotion] = useState<EmotionResult | null>(null);
+  const [speechSegments, setSpeechSegments] = useState<SpeechSegment[]>([]);
+  const [recordingDuration, setRecordingDuration] = useState<number | null>(null);
   const [selectedMood, setSelectedMood] = useState<Mood | null>(null);
-  const [aiSuggestedMood, setAiSuggestedMood] = useState<Mood | null>(null);
+  // Mood scores from each signal; the suggestion is fused from them
+  const [sourceScores, setSourceScores] = useState<SourceScores>(() => {
+    const previousMood = loadPreviousMood();
+    return previousMood ? { previous: moodToScores(previousMood) } : {};
+  });
+  // Set when the mood was picked as a point between moods rather than a single card
+  const [selectedAffect, setSelectedAffect] = useState<AffectPoint | null>(null);
+  // Set by a new voice or text result; the suggestion is announced once it has been fused
+  const [pendingAnnouncement, setPendingAnnouncement] = useState<{ uncertain: UncertainReason | null } | null>(null);
   const [activeTab, setActiveTab] = useState('record');
+  const dataset = useLabeledDataset();
+  const fusion = useFusionWeights();
+  const { confidenceFloor, setConfidenceFloor } = useConfidenceFloor();
+
+  const fused = useMemo(() => fuseEmotionScores(sourceScores, fusion.weights), [sourceScores, fusion.weights]);
+  const suggestion = useMemo(
+    () => fused && applyConfidenceFloor(fused.result, confidenceFloor),
+    [fused, confidenceFloor]
+  );
+  const aiSuggestedMood = suggestion && !suggestion.uncertain ? suggestion.mood : null;
+  const aiSecondaryMood = useMemo(() => {
+    if (!aiSuggestedMood) return null;
+    const [, runnerUp] = rankMoods(suggestion.scores);
+    return runnerUp.score >= SECONDARY_MOOD_MIN_SCORE ? runnerUp.mood : null;
+  }, [aiSuggestedMood, suggestion]);
+  const aiAffect = aiSuggestedMood ? suggestion.affect : null;
+
+  // Don't automatically select the fused mood, but suggest it. Announced from
+  // committed state so it reflects every signal, including ones that changed
+  // while the triggering result was on its way
+  useEffect(() => {
+    if (!pendingAnnouncement) return;
+    setPendingAnnouncement(null);
 
-  const handleRecordingComplete = (blob: Blob) => {
+    // An uncertain voice result with nothing else to go on
+    if (!suggestion) {
+      if (pendingAnnouncement.uncertain) {
+        toast.warning("No mood suggestion", {
+          description: UNCERTAIN_MESSAGES[pendingAnnouncement.uncertain].fix
+        });
+      }
+      return;
+    }
+    if (suggestion.uncertain) {
+      toast.warning("No mood suggestion", {
+        description: UNCERTAIN_MESSAGES[suggestion.uncertain].fix
+      });
+      return;
+    }
+    
+    const basis = fused.contributions
+      .filter(item => item.source !== 'previous')
+      .map(item => SUGGESTION_BASIS[item.source])
+      .join(' and ') || SUGGESTION_BASIS.previous;
+    toast.info("AI mood suggestion", {
+      description: `Based on your ${basis}, we suggest a '${suggestion.mood}' mood. You can use this or choose another.`
+    });
+  }, [pendingAnnouncement, fused, suggestion]);
+
+  // Recordings and imports go through the trim editor before mood selection
+  const handleRecordingComplete = (blob: Blob, _duration?: number, estimate: EmotionResult | null = null) => {
+    setPendingRecording(blob);
+    setPendingLiveEmotion(estimate && applyConfidenceFloor(estimate, confidenceFloor));
+  };
+
+  const handleEditComplete = (blob: Blob, duration: number, segments: SpeechSegment[]) => {
+    setPendingRecording(null);
     setRecordingBlob(blob);
+    setRecordingId(`recording-${Date.now().toString(36)}`);
+    setRecordingDuration(duration);
+    setSpeechSegments(segments);
     setActiveTab('mood');
     toast.success("Audio recorded", {
       description: "Now select a mood for your music generation"
     });
+    
+    setLiveEmotion(pendingLiveEmotion);
+    setPendingLiveEmotion(null);
+    // A new recording replaces the previous one's voice signal
+    if (pendingLiveEmotion) {
+      handleEmotionDetected(pendingLiveEmotion);
+    } else {
+      updateSource('audio', null);
+    }
   };
 
   const handleMoodSelect = (mood: Mood) => {
     setSelectedMood(mood);
+    setSelectedAffect(null);
+    storeMoodLabel(mood);
+    savePreviousMood(mood);
     // Automatically move to generate tab when mood is selected
     setActiveTab('generate');
   };
 
-  const handleEmotionDetected = (mood: Mood) => {
-    setAiSuggestedMood(mood);
-    // Don't automatically select it, but suggest it
-    toast.info("AI mood suggestion", {
-      description: `Based on your audio, we suggest a '${mood}' mood. You can use this or choose another.`
+  // Dragging across the plane keeps the nearest mood selected for labels and styling
+  const handleAffectSelect = (point: AffectPoint) => {
+    setSelectedAffect(point);
+    setSelectedMood(nearestMood(point));
+  };
+
+  // Confirming a point on the plane labels the recording like picking a card does
+  const handleAffectConfirm = () => {
+    if (selectedMood) {
+      storeMoodLabel(selectedMood);
+      savePreviousMood(selectedMood);
+    }
+    setActiveTab('generate');
+  };
+
+  // Picking a different mood than the voice analysis labels the recording in the
+  // opt-in dataset; going back to the analysed mood withdraws the label again
+  const storeMoodLabel = (mood: Mood) => {
+    const audioScores = sourceScores.audio;
+    if (!dataset.isEnabled || !recordingBlob || !recordingId || !audioScores) return;
+    
+    const update = mood === rankMoods(audioScores)[0].mood
+      ? dataset.removeSample(recordingId)
+      : dataset.saveLabel(recordingId, recordingBlob, speechSegments, audioScores, mood);
+    update.catch(error => console.error("Error saving labeled sample:", error));
+  };
+
+  // Replaces one signal's scores (null removes it). Results arrive asynchronously,
+  // so the update must build on the latest scores rather than this render's
+  const updateSource = (source: EmotionSource, scores: MoodScores | null) => {
+    setSourceScores(prev => {
+      const { [source]: _replaced, ...rest } = prev;
+      return scores ? { ...rest, [source]: scores } : rest;
     });
   };
 
+  // An uncertain voice result drops the voice signal instead of replacing it
+  const handleEmotionDetected = (result: EmotionResult) => {
+    updateSource('audio', result.uncertain ? null : result.scores);
+    setPendingAnnouncement({ uncertain: result.uncertain });
+  };
+
+  const handleTextMoodDetected = (scores: MoodScores | null) => {
+    updateSource('text', scores);
+    // Withdrawing the description just drops it from the suggestion quietly
+    if (scores) setPendingAnnouncement({ uncertain: null });
+  };
+
   // Function to format file size
   const formatFileSize = (size: number) => {
     if (size < 1024) return `${size} B`;
@@ -47,6 +204,7 @@ const Index = () => {
   const recordingInfo = recordingBlob ? {
     size: formatFileSize(recordingBlob.size),
     type: recordingBlob.type,
+    duration: recordingDuration !== null ? `${recordingDuration.toFixed(1)}s` : null,
     lastModified: new Date().toLocaleString()
   } : null;
 
@@ -88,15 +246,33 @@ const Index = () => {
               <h2 className="text-2xl font-bold">Record Your Audio</h2>
               <p>
                 Record at least 30 seconds of audio. You can record your voice, ambient sounds,
-                beatboxing, or any audio that expresses your current mood.
+                beatboxing, or any audio that expresses your current mood. Already have a recording?
+                Import an audio file instead. You can trim silence or mistakes before choosing a mood.
               </p>
             </div>
             
             <AudioRecorder onRecordingComplete={handleRecordingComplete} minRecordingTime={30} />
             
+            {pendingRecording && (
+              <WaveformEditor
+                audioBlob={pendingRecording}
+                minDuration={30}
+                onCommit={handleEditComplete}
+                onCancel={() => {
+                  setPendingRecording(null);
+                  setPendingLiveEmotion(null);
+                }}
+              />
+            )}
+            
+            <AudioImporter onImportComplete={handleRecordingComplete} minRecordingTime={30} />
+            
             {recordingInfo && (
               <div className="text-sm text-muted-foreground">
-                <p>Recording saved: {recordingInfo.type} ({recordingInfo.size})</p>
+                <p>
+                  Recording saved: {recordingInfo.type} ({recordingInfo.size}
+                  {recordingInfo.duration && `, ${recordingInfo.duration}`})
+                </p>
                 <p>Created: {recordingInfo.lastModified}</p>
               </div>
             )}
@@ -116,13 +292,36 @@ const Index = () => {
                   selectedMood={selectedMood}
                   onMoodSelect={handleMoodSelect}
                   aiSuggestedMood={aiSuggestedMood}
+                  aiSecondaryMood={aiSecondaryMood}
+                  affectPoint={selectedAffect}
+                  aiAffectPoint={aiAffect}
+                  onAffectSelect={handleAffectSelect}
+                  onAffectConfirm={handleAffectConfirm}
                 />
               </div>
-              <div>
+              <div className="space-y-6">
                 <EmotionDetector 
                   audioBlob={recordingBlob}
+                  speechSegments={speechSegments}
+                  liveResult={liveEmotion}
+                  confidenceFloor={confidenceFloor}
+                  onConfidenceFloorChange={setConfidenceFloor}
                   onEmotionDetected={handleEmotionDetected}
                 />
+                <TextMoodInput onMoodDetected={handleTextMoodDetected} />
+                <MoodFusionPanel
+                  sources={sourceScores}
+                  fused={fused}
+                  weights={fusion.weights}
+                  onWeightChange={fusion.setWeight}
+                />
+                <DatasetPanel
+                  isEnabled={dataset.isEnabled}
+                  onEnabledChange={dataset.setIsEnabled}
+                  sampleCount={dataset.sampleCount}
+                  onExport={dataset.exportZip}
+                  onClear={dataset.clear}
+                />
               </div>
             </div>
           </TabsContent>
@@ -149,7 +348,9 @@ const Index = () => {
             
             <MusicGenerator 
               audioBlob={recordingBlob}
+              audioDuration={recordingDuration}
               selectedMood={selectedMood}
+              selectedAffect={selectedAffect}
             />
           </TabsContent>
         </Tabs>
@@ -1,5 +1,6 @@
 
 import type { Config } from "tailwindcss";
+import { MOOD_COLORS } from "./src/lib/emotion/palette";
 
 export default {
 	darkMode: ["class"],
@@ -64,13 +65,7 @@ export default {
 					ring: 'hsl(var(--sidebar-ring))'
 				},
 				// Mood-based colors
-				moods: {
-					happy: '#FFD700', // Gold
-					calm: '#4682B4', // Steel Blue
-					energetic: '#FF4500', // Orange Red
-					sad: '#6A5ACD', // Slate Blue
-					angry: '#8B0000', // Dark Red
-				},
+				moods: MOOD_COLORS,
 			},
 			borderRadius: {
 				lg: 'var(--radius)',
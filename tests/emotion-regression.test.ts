@@ -0,0 +1,84 @@
+// Regression suite for the built-in emotion classifier: the fixture clips
+// (written by scripts/generate-emotion-fixtures.ts) must keep their top mood
+// and per-mood scores. A deliberate change to features or rules will move
+// these numbers; update them together with that change.
+
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { test } from 'node:test';
+import { type Mood } from '@/components/MoodSelector';
+import { decodeWav } from '@/lib/audio/wav';
+import { detectEmotion, extractSpeechFeatures } from '@/lib/emotion/detect';
+import { classifyEmotion, createHeuristicClassifier } from '@/lib/emotion/heuristic';
+import { MOODS, type MoodScores } from '@/lib/emotion/scores';
+
+const FIXTURE_DIR = path.resolve('tests/fixtures/emotion');
+const TOLERANCE = 1e-3;
+const DEMO_SEED = 42;
+
+type Expectation = {
+  mood: Mood;
+  scores: MoodScores;
+};
+
+const EXPECTED: Record<Mood, Expectation> = {
+  happy: { mood: 'happy', scores: { happy: 0.7178, calm: 0.2613, energetic: 0.0033, sad: 0.0056, angry: 0.0121 } },
+  calm: { mood: 'calm', scores: { happy: 0.0186, calm: 0.9673, energetic: 0, sad: 0.0138, angry: 0.0002 } },
+  energetic: { mood: 'energetic', scores: { happy: 0.0702, calm: 0.0071, energetic: 0.681, sad: 0.0846, angry: 0.1571 } },
+  sad: { mood: 'sad', scores: { happy: 0, calm: 0.0489, energetic: 0.0002, sad: 0.9501, angry: 0.0006 } },
+  angry: { mood: 'angry', scores: { happy: 0.0812, calm: 0.0082, energetic: 0.0428, sad: 0.0833, angry: 0.7845 } },
+};
+
+// Demo noise with DEMO_SEED; it may shift scores but must replay exactly
+const EXPECTED_DEMO: Record<Mood, Expectation> = {
+  happy: { mood: 'happy', scores: { happy: 0.7531, calm: 0.2293, energetic: 0.0044, sad: 0.0063, angry: 0.0069 } },
+  calm: { mood: 'calm', scores: { happy: 0.0221, calm: 0.9601, energetic: 0, sad: 0.0176, angry: 0.0002 } },
+  energetic: { mood: 'energetic', scores: { happy: 0.0629, calm: 0.0053, energetic: 0.7739, sad: 0.0813, angry: 0.0765 } },
+  sad: { mood: 'sad', scores: { happy: 0, calm: 0.0386, energetic: 0.0003, sad: 0.9608, angry: 0.0003 } },
+  angry: { mood: 'angry', scores: { happy: 0.1233, calm: 0.0104, energetic: 0.0825, sad: 0.1359, angry: 0.6479 } },
+};
+
+const loadFixture = async (mood: Mood) => {
+  const data = await readFile(path.join(FIXTURE_DIR, `${mood}.wav`));
+  const { channels, sampleRate } = decodeWav(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength) as ArrayBuffer);
+  return { samples: channels[0], sampleRate };
+};
+
+const assertScores = (actual: MoodScores, expected: MoodScores) => {
+  MOODS.forEach(mood => {
+    assert.ok(
+      Math.abs(actual[mood] - expected[mood]) <= TOLERANCE,
+      `${mood} scored ${actual[mood].toFixed(4)}, expected ${expected[mood]} ± ${TOLERANCE}`
+    );
+  });
+};
+
+MOODS.forEach(fixture => {
+  test(`${fixture} fixture keeps its mood and scores`, async () => {
+    const { samples, sampleRate } = await loadFixture(fixture);
+    const result = await detectEmotion(samples, sampleRate, createHeuristicClassifier());
+
+    assert.equal(result.mood, EXPECTED[fixture].mood);
+    assertScores(result.scores, EXPECTED[fixture].scores);
+  });
+
+  test(`${fixture} fixture replays the seeded demo noise`, async () => {
+    const { samples, sampleRate } = await loadFixture(fixture);
+    const features = extractSpeechFeatures(samples, sampleRate);
+    const first = classifyEmotion(features, { demoSeed: DEMO_SEED });
+    const second = classifyEmotion(features, { demoSeed: DEMO_SEED });
+
+    assert.deepEqual(second, first);
+    assert.equal(first.mood, EXPECTED_DEMO[fixture].mood);
+    assertScores(first.scores, EXPECTED_DEMO[fixture].scores);
+  });
+});
+
+test('classification is a pure function of the audio', async () => {
+  const { samples, sampleRate } = await loadFixture('energetic');
+  const classifier = createHeuristicClassifier();
+  const runs = await Promise.all([1, 2, 3].map(() => detectEmotion(samples, sampleRate, classifier)));
+
+  runs.forEach(run => assert.deepEqual(run, runs[0]));
+});